@@ -0,0 +1,28 @@
+#!/bin/sh
+# Gera /config.json na subida do container (executado pelo entrypoint do nginx).
+# Sem API_BASE_URL/APP_ENV/MOCK_API o arquivo não é criado e valem os valores do build.
+set -eu
+
+TARGET=/usr/share/nginx/html/config.json
+
+if [ -z "${API_BASE_URL:-}" ] && [ -z "${APP_ENV:-}" ] && [ -z "${MOCK_API:-}" ]; then
+  rm -f "$TARGET"
+  exit 0
+fi
+
+{
+  printf '{'
+  sep=''
+  if [ -n "${API_BASE_URL:-}" ]; then
+    printf '"apiBaseUrl":"%s"' "$API_BASE_URL"
+    sep=','
+  fi
+  if [ -n "${APP_ENV:-}" ]; then
+    printf '%s"environment":"%s"' "$sep" "$APP_ENV"
+    sep=','
+  fi
+  if [ "${MOCK_API:-}" = "true" ]; then
+    printf '%s"mockApi":true' "$sep"
+  fi
+  printf '}\n'
+} > "$TARGET"
@@ -1,81 +1,28 @@
-import { useEffect, useState } from "react";
 import { Routes, Route, Navigate } from "react-router-dom";
-import { useNavigate } from "react-router-dom";
 
-import Header from "./components/header";
 import SignIn from "./components/singin";
 import SignUp from "./components/signUp"; // supondo que existe
 import Dashboard from "./components/dashboard/dashboard";
+import ReleaseDetailPage from "./components/dashboard/releaseDetail";
 
 import { Toaster } from "sonner";
 
 import "./global.css";
 import RequestKey from "./components/requestKey";
+import RequestStatusPage from "./components/requestStatus";
+import ForgotPassword from "./components/forgotPassword";
+import ResetPassword from "./components/resetPassword";
 import PrivateRoute from "./routes/PrivateRoute";
+import DashboardLayout from "./routes/DashboardLayout";
 import CreateReleaseModal from "./components/register/registerRelease";
 
-import { parseJwtExpMs } from "./utils/jwt";
+import { ADMIN_ROLES, EDITOR_ROLES } from "./utils/permissions";
 import Approval from "./components/approval/approval";
+import UsersPage from "./components/users/users";
+import ProfilePage from "./components/profile/profile";
+import NotFound from "./components/notFound";
 
 export default function App() {
-  const navigate = useNavigate();
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [isPage, setIspage] = useState("dashboard");
-
-  useEffect(() => {
-    const token = localStorage.getItem("token");
-    let expMs = Number(localStorage.getItem("expires_at")) || 0;
-
-    if (token && !expMs) {
-      expMs = parseJwtExpMs(token);
-      if (expMs) localStorage.setItem("expires_at", String(expMs));
-    }
-
-    if (token && expMs && Date.now() < expMs) {
-      setIsAuthenticated(true);
-    } else {
-      localStorage.removeItem("authenticated");
-      localStorage.removeItem("expires_at");
-      localStorage.removeItem("token");
-      setIsAuthenticated(false);
-    }
-    setIsLoading(false);
-  }, []);
-
-  const handleLogin = () => {
-    // SignIn já salvou token e expires_at via exp do JWT
-    localStorage.setItem("authenticated", "true");
-    setIsAuthenticated(true);
-  };
-
-  const handleLogout = () => {
-    localStorage.removeItem("authenticated");
-    localStorage.removeItem("expires_at");
-    localStorage.removeItem("token");
-    setIspage("dashboard");
-    setIsAuthenticated(false);
-    navigate("/login", { replace: true }); // força ir para login
-  };
-
-  const handleLicenca = () => {
-    setIspage("dashboard");
-  };
-  const handleChave = () => {
-    setIspage("key");
-  };
-  const handleHomologation = () => {
-    setIspage("homologation");
-  };
-
-  if (isLoading) {
-    return (
-      <div className="h-screen flex items-center justify-center text-black dark:text-white">
-        Carregando...
-      </div>
-    );
-  }
-
   return (
     <>
       <div className="h-screen flex flex-col bg-white text-black dark:bg-zinc-900 dark:text-white overflow-hidden">
@@ -85,42 +32,51 @@ export default function App() {
 
           {/* Públicas */}
           <Route path="/solicitar-chave" element={<RequestKey />} />
-          <Route path="/login" element={<SignIn onLogin={handleLogin} />} />
+          <Route
+            path="/acompanhar-solicitacao"
+            element={<RequestStatusPage />}
+          />
+          <Route path="/login" element={<SignIn />} />
           <Route path="/cadastro" element={<SignUp />} />
+          <Route path="/esqueci-senha" element={<ForgotPassword />} />
+          <Route path="/redefinir-senha/:token" element={<ResetPassword />} />
 
-          {/* Protegida */}
+          {/* Protegidas */}
           <Route
-            path="/dashboard"
             element={
-              <PrivateRoute isAuthenticated={isAuthenticated}>
-                <>
-                  <header className="w-full">
-                    <Header
-                      LogOut={handleLogout}
-                      LogKey={handleChave}
-                      LogLicense={handleLicenca}
-                      LogHomologation={handleHomologation}
-                    />
-                  </header>
-                  <main className="flex-1 h-screen overflow-auto">
-                    {isPage === "dashboard" ? (
-                      <Dashboard />
-                    ) : isPage === "key" ? (
-                      <CreateReleaseModal />
-                    ) : (
-                      <Approval />
-                    )}
-                  </main>
-                </>
+              <PrivateRoute>
+                <DashboardLayout />
               </PrivateRoute>
             }
-          />
-
-          {/* Qualquer outra rota → /solicitar-chave */}
-          <Route
-            path="*"
-            element={<Navigate to="/solicitar-chave" replace />}
-          />
+          >
+            <Route path="/dashboard">
+              <Route index element={<Navigate to="firmwares" replace />} />
+              <Route path="firmwares" element={<Dashboard />} />
+              <Route
+                path="firmwares/novo"
+                element={
+                  <PrivateRoute roles={EDITOR_ROLES}>
+                    <CreateReleaseModal />
+                  </PrivateRoute>
+                }
+              />
+              <Route path="homologacoes" element={<Approval />} />
+              <Route
+                path="usuarios"
+                element={
+                  <PrivateRoute roles={ADMIN_ROLES}>
+                    <UsersPage />
+                  </PrivateRoute>
+                }
+              />
+              <Route path="perfil" element={<ProfilePage />} />
+              <Route path="*" element={<NotFound />} />
+            </Route>
+            <Route path="/releases/:id" element={<ReleaseDetailPage />} />
+          </Route>
+
+          {/* Qualquer outra rota */}
+          <Route path="*" element={<NotFound />} />
         </Routes>
       </div>
 
@@ -2,27 +2,19 @@
 import React, { useEffect, useState, useMemo, useCallback, memo } from "react";
 import { createPortal } from "react-dom";
 import { Inbox, Plus, FileText, Trash2 } from "lucide-react";
-import api from "../../services/api";
+import { approvalsApi } from "../../services/approvalsApi";
+import type { Approval, ApprovalInput } from "../../services/models";
+import { isUnexpectedResponse } from "../../services/schema";
+import {
+  errorMessage,
+  fieldErrorsOf,
+  isApiError,
+} from "../../services/apiError";
+import UnexpectedResponse from "../unexpectedResponse";
 import { toast } from "sonner";
-
-type UserPublic = {
-  id: number;
-  name: string;
-  role: string;
-};
-
-type Approval = {
-  id: number;
-  establishment: string;
-  date: string;
-  productName: string;
-  category: string;
-  description: string;
-  fileUrl: string;
-  createdAt: string;
-  updatedAt: string;
-  createdBy?: UserPublic | null;
-};
+import { can } from "../../utils/permissions";
+import { parsePage, useUrlFilters } from "../../hooks/useUrlFilters";
+import { useOnlineStatus } from "../../hooks/useOnlineStatus";
 
 type ModalMode = "add" | "edit";
 
@@ -44,14 +36,9 @@ type ConfirmState =
     }
   | { open: false };
 
-type ApprovalForm = {
-  establishment: string;
-  date: string;
-  productName: string;
-  category: string;
-  description: string;
-  file: File | null;
-};
+type ApprovalForm = ApprovalInput;
+
+type FormErrors = Partial<Record<keyof ApprovalForm, string>>;
 
 const emptyForm: ApprovalForm = {
   establishment: "",
@@ -64,23 +51,33 @@ const emptyForm: ApprovalForm = {
 
 export default function ApprovalPage() {
   const [data, setData] = useState<Approval[]>([]);
-  const [search, setSearch] = useState("");
-  const [categoryFilter, setCategoryFilter] = useState<string>("Todos");
-  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useUrlFilters({
+    busca: "",
+    categoria: "Todos",
+    pagina: "1",
+  });
+  const search = filters.busca;
+  const categoryFilter = filters.categoria;
   const [perPage] = useState(10);
   const [modal, setModal] = useState<ModalState>({ open: false });
   const [confirm, setConfirm] = useState<ConfirmState>({ open: false });
   const [saving, setSaving] = useState(false);
   const [form, setForm] = useState<ApprovalForm>(emptyForm);
+  const [formErrors, setFormErrors] = useState<FormErrors>({});
   const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [invalidResponse, setInvalidResponse] = useState(false);
+
+  const canEdit = can("approval:edit");
+  const canDelete = can("approval:delete");
 
   const getData = useCallback(async () => {
     try {
-      const res = await api.get("/v1/approvals");
-      setData(res.data as Approval[]);
-    } catch (err: any) {
+      setData(await approvalsApi.list());
+      setInvalidResponse(false);
+    } catch (err) {
       console.error(err);
-      toast.error("Falha ao carregar homologações.");
+      if (isUnexpectedResponse(err)) setInvalidResponse(true);
+      else toast.error(errorMessage(err, "Falha ao carregar homologações."));
     }
   }, []);
 
@@ -117,10 +114,14 @@ export default function ApprovalPage() {
   }, [data, search, categoryFilter]);
 
   const totalPages = Math.max(1, Math.ceil(filtered.length / perPage));
+  // página da URL pode estar fora do intervalo (link antigo, filtro mudou)
+  const page = Math.min(parsePage(filters.pagina), totalPages);
+  const setPage = (p: number) => setFilters({ pagina: String(p) });
   const pageData = filtered.slice((page - 1) * perPage, page * perPage);
 
   const openModalAdd = () => {
     setForm(emptyForm);
+    setFormErrors({});
     setModal({ open: true, mode: "add" });
   };
 
@@ -154,16 +155,30 @@ export default function ApprovalPage() {
     try {
       await confirm.onConfirm();
       await getData();
+    } catch (err) {
+      console.error(err);
+      toast.error(errorMessage(err, "Falha ao excluir homologação."));
     } finally {
       setConfirm({ open: false });
     }
   };
 
-  const handleChange = (patch: Partial<ApprovalForm>) =>
+  const clearErrors = (keys: (keyof ApprovalForm)[]) =>
+    setFormErrors((prev) => {
+      const next = { ...prev };
+      keys.forEach((k) => delete next[k]);
+      return next;
+    });
+
+  const handleChange = (patch: Partial<ApprovalForm>) => {
     setForm((prev) => ({ ...prev, ...patch }));
+    clearErrors(Object.keys(patch) as (keyof ApprovalForm)[]);
+  };
 
-  const handleFileChange = (file: File | null) =>
+  const handleFileChange = (file: File | null) => {
     setForm((prev) => ({ ...prev, file }));
+    clearErrors(["file"]);
+  };
 
   const handleSubmit = async () => {
     if (!modal.open) return;
@@ -174,45 +189,30 @@ export default function ApprovalPage() {
     }
 
     setSaving(true);
+    setFormErrors({});
     try {
-      const fd = new FormData();
-      fd.append("establishment", form.establishment);
-      fd.append("productName", form.productName);
-      fd.append("category", form.category);
-      fd.append("description", form.description);
-      if (form.date) {
-        fd.append("date", form.date); // backend faz o parse
-      }
-      if (form.file) {
-        fd.append("file", form.file);
-      }
-
       if (modal.mode === "add") {
         if (!form.file) {
           toast.error("Selecione um arquivo para anexar.");
           setSaving(false);
           return;
         }
-        await api.post("/v1", fd, {
-          headers: {
-            // boundary automático
-          },
-        });
+        await approvalsApi.create(form);
         toast.success("Homologação cadastrada com sucesso.");
       } else if (modal.mode === "edit" && modal.approval) {
-        await api.put(`/v1/approvals/${modal.approval.id}`, fd, {
-          headers: {
-            // boundary automático
-          },
-        });
+        await approvalsApi.update(modal.approval.id, form);
         toast.success("Homologação atualizada com sucesso.");
       }
 
       await getData();
       closeModal();
-    } catch (err: any) {
+    } catch (err) {
       console.error(err);
-      toast.error(err?.response?.data?.error || "Falha ao salvar homologação.");
+      const fields = fieldErrorsOf<keyof ApprovalForm>(err);
+      if (isApiError(err) && err.kind === "muito-grande")
+        fields.file = "Arquivo maior que o permitido pelo servidor.";
+      setFormErrors(fields);
+      toast.error(errorMessage(err, "Falha ao salvar homologação."));
     } finally {
       setSaving(false);
     }
@@ -220,7 +220,7 @@ export default function ApprovalPage() {
 
   const handleDelete = async (approval: Approval) => {
     confirmDelete(approval, async () => {
-      await api.delete(`/v1/approvals/${approval.id}`);
+      await approvalsApi.remove(approval.id);
     });
   };
 
@@ -241,17 +241,18 @@ export default function ApprovalPage() {
             className="w-full md:flex-1 px-3 py-2 rounded-md border border-gray-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-sm"
             placeholder="Buscar por estabelecimento, produto ou categoria"
             value={search}
-            onChange={(e) => {
-              setPage(1);
-              setSearch(e.target.value);
-            }}
+            onChange={(e) =>
+              setFilters(
+                { busca: e.target.value, pagina: "1" },
+                { coalesce: true }
+              )
+            }
           />
           <select
             value={categoryFilter}
-            onChange={(e) => {
-              setPage(1);
-              setCategoryFilter(e.target.value);
-            }}
+            onChange={(e) =>
+              setFilters({ categoria: e.target.value, pagina: "1" })
+            }
             className="w-full md:w-64 px-3 py-2 rounded-md border border-gray-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-sm"
           >
             <option value="Todos">Todas as categorias</option>
@@ -261,13 +262,15 @@ export default function ApprovalPage() {
               </option>
             ))}
           </select>
-          <button
-            onClick={openModalAdd}
-            className="inline-flex items-center justify-center gap-2 px-3 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 text-sm font-medium"
-          >
-            <Plus className="w-4 h-4" />
-            Nova homologação
-          </button>
+          {canEdit && (
+            <button
+              onClick={openModalAdd}
+              className="inline-flex items-center justify-center gap-2 px-3 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" />
+              Nova homologação
+            </button>
+          )}
         </div>
       </div>
 
@@ -339,13 +342,15 @@ export default function ApprovalPage() {
                           >
                             Editar
                           </button>*/}
-                          <button
-                            onClick={() => handleDelete(a)}
-                            className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-xs"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                            Excluir
-                          </button>
+                          {canDelete && (
+                            <button
+                              onClick={() => handleDelete(a)}
+                              className="inline-flex items-center gap-1 px-2 py-1 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-xs"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                              Excluir
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -433,11 +438,17 @@ export default function ApprovalPage() {
                     colSpan={7}
                     className="px-4 py-8 text-center text-gray-500 dark:text-gray-400"
                   >
-                    <Inbox
-                      className="w-16 h-16 mx-auto mb-2 text-gray-400 dark:text-gray-500"
-                      strokeWidth={1}
-                    />
-                    Nenhuma homologação encontrada
+                    {invalidResponse ? (
+                      <UnexpectedResponse onRetry={getData} />
+                    ) : (
+                      <>
+                        <Inbox
+                          className="w-16 h-16 mx-auto mb-2 text-gray-400 dark:text-gray-500"
+                          strokeWidth={1}
+                        />
+                        Nenhuma homologação encontrada
+                      </>
+                    )}
                   </td>
                 </tr>
               )}
@@ -449,7 +460,7 @@ export default function ApprovalPage() {
         {filtered.length > 0 && (
           <div className="flex justify-center items-center gap-2 py-3">
             <button
-              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              onClick={() => setPage(Math.max(1, page - 1))}
               disabled={page === 1}
               className="w-8 h-8 flex items-center justify-center rounded-md border dark:border-zinc-700 hover:bg-gray-200 dark:hover:bg-zinc-800 disabled:opacity-50"
             >
@@ -459,7 +470,7 @@ export default function ApprovalPage() {
               {page} / {totalPages}
             </span>
             <button
-              onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+              onClick={() => setPage(Math.min(totalPages, page + 1))}
               disabled={page === totalPages}
               className="w-8 h-8 flex items-center justify-center rounded-md border dark:border-zinc-700 hover:bg-gray-200 dark:hover:bg-zinc-800 disabled:opacity-50"
             >
@@ -473,6 +484,7 @@ export default function ApprovalPage() {
       <ApprovalModalPortal
         modal={modal}
         form={form}
+        errors={formErrors}
         saving={saving}
         onClose={closeModal}
         onChange={handleChange}
@@ -495,6 +507,7 @@ export default function ApprovalPage() {
 type ApprovalModalProps = {
   modal: ModalState;
   form: ApprovalForm;
+  errors: FormErrors;
   saving: boolean;
   onClose: () => void;
   onChange: (patch: Partial<ApprovalForm>) => void;
@@ -505,16 +518,25 @@ type ApprovalModalProps = {
 const ApprovalModal = memo(function ApprovalModal({
   modal,
   form,
+  errors,
   saving,
   onClose,
   onChange,
   onFileChange,
   onSubmit,
 }: ApprovalModalProps) {
+  const online = useOnlineStatus();
   if (!modal.open) return null;
 
-  const common =
-    "w-full px-3 py-2 rounded-md border border-gray-300 text-sm bg-white dark:bg-white text-gray-900 dark:text-gray-900 placeholder:text-gray-500";
+  const inputClass = (field: keyof ApprovalForm) =>
+    `w-full px-3 py-2 rounded-md border text-sm bg-white dark:bg-white text-gray-900 dark:text-gray-900 placeholder:text-gray-500 ${
+      errors[field] ? "border-rose-400" : "border-gray-300"
+    }`;
+
+  const fieldError = (field: keyof ApprovalForm) =>
+    errors[field] ? (
+      <p className="text-[11px] text-rose-600 mt-1">{errors[field]}</p>
+    ) : null;
 
   const title =
     modal.mode === "edit" ? "Editar homologação" : "Nova homologação";
@@ -542,31 +564,37 @@ const ApprovalModal = memo(function ApprovalModal({
           <div>
             <label className="text-xs block mb-1">Estabelecimento</label>
             <input
-              className={common}
+              className={inputClass("establishment")}
               value={form.establishment}
               onChange={(e) => onChange({ establishment: e.target.value })}
               placeholder="Ex.: Loja X, Condomínio Y..."
+              aria-invalid={!!errors.establishment}
             />
+            {fieldError("establishment")}
           </div>
 
           <div className="grid grid-cols-2 gap-3">
             <div>
               <label className="text-xs block mb-1">Produto</label>
               <input
-                className={common}
+                className={inputClass("productName")}
                 value={form.productName}
                 onChange={(e) => onChange({ productName: e.target.value })}
                 placeholder="Ex.: Carregador AC 7kW"
+                aria-invalid={!!errors.productName}
               />
+              {fieldError("productName")}
             </div>
             <div>
               <label className="text-xs block mb-1">Categoria</label>
               <input
-                className={common}
+                className={inputClass("category")}
                 value={form.category}
                 onChange={(e) => onChange({ category: e.target.value })}
                 placeholder="Ex.: AC, DC, Telecom..."
+                aria-invalid={!!errors.category}
               />
+              {fieldError("category")}
             </div>
           </div>
 
@@ -574,21 +602,25 @@ const ApprovalModal = memo(function ApprovalModal({
             <label className="text-xs block mb-1">Data da homologação</label>
             <input
               type="date"
-              className={common}
+              className={inputClass("date")}
               value={form.date}
               onChange={(e) => onChange({ date: e.target.value })}
+              aria-invalid={!!errors.date}
             />
+            {fieldError("date")}
           </div>
 
           <div>
             <label className="text-xs block mb-1">Descrição</label>
             <textarea
-              className={common}
+              className={inputClass("description")}
               rows={4}
               value={form.description}
               onChange={(e) => onChange({ description: e.target.value })}
               placeholder="Resumo dos testes, observações importantes, restrições, etc."
+              aria-invalid={!!errors.description}
             />
+            {fieldError("description")}
           </div>
 
           <div>
@@ -603,7 +635,11 @@ const ApprovalModal = memo(function ApprovalModal({
               >
                 Selecionar arquivo
               </button>
-              <span className="text-sm text-gray-700 truncate max-w-[260px]">
+              <span
+                className={`text-sm truncate max-w-[260px] ${
+                  errors.file ? "text-rose-600" : "text-gray-700"
+                }`}
+              >
                 {form.file ? form.file.name : "Nenhum arquivo selecionado"}
               </span>
             </div>
@@ -619,6 +655,7 @@ const ApprovalModal = memo(function ApprovalModal({
                 onFileChange(file);
               }}
             />
+            {fieldError("file")}
             <p className="text-[11px] text-gray-500 mt-1">
               No cadastro, o arquivo é obrigatório. Na edição, enviar um novo
               arquivo substitui o atual.
@@ -636,7 +673,7 @@ const ApprovalModal = memo(function ApprovalModal({
           </button>
           <button
             onClick={onSubmit}
-            disabled={saving}
+            disabled={saving || !online}
             className="px-3 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm"
           >
             {saving ? "Salvando..." : "Salvar"}
@@ -675,6 +712,7 @@ const ConfirmModal = memo(function ConfirmModal({
   setConfirm,
   doConfirmedDelete,
 }: ConfirmPortalProps) {
+  const online = useOnlineStatus();
   if (!confirm.open) return null;
   return (
     <div
@@ -703,7 +741,7 @@ const ConfirmModal = memo(function ConfirmModal({
           <button
             onClick={doConfirmedDelete}
             className="px-3 py-2 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-sm disabled:opacity-50"
-            disabled={confirm.busy}
+            disabled={confirm.busy || !online}
           >
             {confirm.busy ? "Excluindo..." : "Excluir"}
           </button>
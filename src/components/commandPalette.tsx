@@ -0,0 +1,266 @@
+// src/components/commandPalette.tsx
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Combobox,
+  ComboboxInput,
+  ComboboxOption,
+  ComboboxOptions,
+  Dialog,
+  DialogBackdrop,
+  DialogPanel,
+} from "@headlessui/react";
+import {
+  ClipboardCheck,
+  FilePlus,
+  LogOut,
+  Package,
+  Search,
+  SunMoon,
+  UserCircle,
+  Users,
+} from "lucide-react";
+import { useAuth } from "../contexts/authContext";
+import { toggleTheme } from "../hooks/useTheme";
+import { fuzzyFilter } from "../utils/fuzzy";
+import type { Role } from "../utils/jwt";
+import { ADMIN_ROLES, EDITOR_ROLES, hasAnyRole } from "../utils/permissions";
+import { labelStatus } from "./dashboard/components/releaseFormat";
+import { approvalsApi } from "../services/approvalsApi";
+import type { Approval } from "../services/models";
+import { useReleases } from "../hooks/useReleases";
+
+type PaletteItem = {
+  id: string;
+  group: "Ações" | "Releases" | "Homologações";
+  title: string;
+  subtitle?: string;
+  icon: React.ReactNode;
+  run: () => void;
+};
+
+type Action = {
+  title: string;
+  keywords: string;
+  icon: React.ReactNode;
+  roles?: Role[];
+  run: () => void;
+};
+
+const MAX_RELEASES = 8;
+const MAX_APPROVALS = 5;
+
+interface CommandPaletteProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function CommandPalette({ open, onClose }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const { claims, logout } = useAuth();
+  const [query, setQuery] = useState("");
+  const [approvals, setApprovals] = useState<Approval[] | null>(null);
+  // lista do queryCache: gravações e revalidações já a mantêm atualizada
+  const { data: releases, loading: loadingReleases } = useReleases(open);
+
+  // Homologações não têm cache: busca de novo a cada abertura, mantendo a
+  // lista anterior na tela até a resposta chegar
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    approvalsApi
+      .list()
+      .then((list) => {
+        if (!cancelled) setApprovals(list);
+      })
+      .catch((err) => {
+        console.error("GET /v1/approvals error:", err);
+        if (!cancelled) setApprovals((prev) => prev ?? []);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const close = () => {
+    setQuery("");
+    onClose();
+  };
+
+  const go = (path: string) => () => navigate(path);
+
+  const actions: Action[] = [
+    {
+      title: "Firmwares",
+      keywords: "releases lista firmwares",
+      icon: <Package className="w-4 h-4" />,
+      run: go("/dashboard/firmwares"),
+    },
+    {
+      title: "Cadastrar firmware",
+      keywords: "novo nova release cadastro firmware",
+      icon: <FilePlus className="w-4 h-4" />,
+      roles: EDITOR_ROLES,
+      run: go("/dashboard/firmwares/novo"),
+    },
+    {
+      title: "Homologações",
+      keywords: "homologacao homologacoes",
+      icon: <ClipboardCheck className="w-4 h-4" />,
+      run: go("/dashboard/homologacoes"),
+    },
+    {
+      title: "Usuários",
+      keywords: "usuarios contas",
+      icon: <Users className="w-4 h-4" />,
+      roles: ADMIN_ROLES,
+      run: go("/dashboard/usuarios"),
+    },
+    {
+      title: "Meu perfil",
+      keywords: "perfil senha conta",
+      icon: <UserCircle className="w-4 h-4" />,
+      run: go("/dashboard/perfil"),
+    },
+    {
+      title: "Alternar tema",
+      keywords: "tema escuro claro dark",
+      icon: <SunMoon className="w-4 h-4" />,
+      run: toggleTheme,
+    },
+    {
+      title: "Sair",
+      keywords: "sair logout",
+      icon: <LogOut className="w-4 h-4" />,
+      run: () => {
+        logout();
+        navigate("/login", { replace: true });
+      },
+    },
+  ];
+
+  const role = claims?.role ?? null;
+  const visibleActions = actions.filter((a) => hasAnyRole(role, a.roles));
+
+  const buildItems = (): PaletteItem[] => {
+    const q = query.trim();
+    const actionItems = fuzzyFilter(
+      visibleActions,
+      q,
+      (a) => `${a.title} ${a.keywords}`
+    ).map<PaletteItem>((a) => ({
+      id: `acao-${a.title}`,
+      group: "Ações",
+      title: a.title,
+      icon: a.icon,
+      run: a.run,
+    }));
+    // sem consulta, só as ações; releases e homologações aparecem ao digitar
+    if (!q) return actionItems;
+
+    const releaseItems = fuzzyFilter(
+      releases ?? [],
+      q,
+      (r) => `${r.productCategory} ${r.productName} ${r.version}`,
+      MAX_RELEASES
+    ).map<PaletteItem>((r) => ({
+      id: `release-${r.id}`,
+      group: "Releases",
+      title: `${r.productName} ${r.version}`,
+      subtitle: `#${r.id} • ${r.productCategory} • ${labelStatus(r.status)}`,
+      icon: <Package className="w-4 h-4" />,
+      run: go(`/releases/${r.id}`),
+    }));
+
+    const approvalItems = fuzzyFilter(
+      approvals ?? [],
+      q,
+      (a) => a.establishment,
+      MAX_APPROVALS
+    ).map<PaletteItem>((a) => ({
+      id: `homologacao-${a.id}`,
+      group: "Homologações",
+      title: a.establishment,
+      subtitle: `${a.productName} • ${a.category}`,
+      icon: <ClipboardCheck className="w-4 h-4" />,
+      run: go(
+        `/dashboard/homologacoes?busca=${encodeURIComponent(a.establishment)}`
+      ),
+    }));
+
+    return [...actionItems, ...releaseItems, ...approvalItems];
+  };
+
+  const items = buildItems();
+
+  const groups = (["Ações", "Releases", "Homologações"] as const)
+    .map((g) => ({ label: g, items: items.filter((i) => i.group === g) }))
+    .filter((g) => g.items.length > 0);
+
+  const loading = !!query.trim() && (loadingReleases || approvals === null);
+
+  return (
+    <Dialog open={open} onClose={close} className="relative z-[130]">
+      <DialogBackdrop className="fixed inset-0 bg-black/40" />
+      <div className="fixed inset-0 flex items-start justify-center p-4 pt-[15vh]">
+        <DialogPanel className="w-full max-w-xl rounded-xl border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-gray-900 dark:text-white shadow-2xl overflow-hidden">
+          <Combobox<PaletteItem | null>
+            immediate
+            onChange={(item) => {
+              if (!item) return;
+              close();
+              item.run();
+            }}
+          >
+            <div className="flex items-center gap-2 px-4 border-b border-gray-200 dark:border-zinc-700">
+              <Search className="w-4 h-4 text-gray-400" />
+              <ComboboxInput
+                autoFocus
+                className="w-full py-3 bg-transparent outline-none text-sm placeholder:text-gray-400"
+                placeholder="Buscar releases, homologações ou ações..."
+                onChange={(e) => setQuery(e.target.value)}
+              />
+              <kbd className="text-xs text-gray-400">Esc</kbd>
+            </div>
+            <ComboboxOptions
+              static
+              className="max-h-[50vh] overflow-y-auto p-2 text-sm"
+            >
+              {groups.map((g) => (
+                <div key={g.label} className="mb-2 last:mb-0">
+                  <p className="px-2 py-1 text-xs font-semibold text-gray-500 dark:text-gray-400">
+                    {g.label}
+                  </p>
+                  {g.items.map((item) => (
+                    <ComboboxOption
+                      key={item.id}
+                      value={item}
+                      className="flex items-center gap-3 rounded-md px-2 py-2 cursor-pointer data-[focus]:bg-green-100 dark:data-[focus]:bg-green-900/30"
+                    >
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {item.icon}
+                      </span>
+                      <span className="flex flex-col min-w-0">
+                        <span className="truncate">{item.title}</span>
+                        {item.subtitle && (
+                          <span className="truncate text-xs text-gray-500 dark:text-gray-400">
+                            {item.subtitle}
+                          </span>
+                        )}
+                      </span>
+                    </ComboboxOption>
+                  ))}
+                </div>
+              ))}
+              {groups.length === 0 && (
+                <p className="px-2 py-6 text-center text-gray-500 dark:text-gray-400">
+                  {loading ? "Carregando..." : "Nenhum resultado encontrado"}
+                </p>
+              )}
+            </ComboboxOptions>
+          </Combobox>
+        </DialogPanel>
+      </div>
+    </Dialog>
+  );
+}
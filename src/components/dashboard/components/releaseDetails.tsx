@@ -0,0 +1,275 @@
+// src/components/dashboard/components/releaseDetails.tsx
+import type { ReleaseEditor } from "../../../hooks/useReleaseEditor";
+import { can } from "../../../utils/permissions";
+import { fmtDate, labelStatus } from "./releaseFormat";
+import type { Release } from "../../../services/models";
+
+type ReleaseDetailsProps = {
+  release: Release;
+  editor: ReleaseEditor;
+  /** Ações extras no cabeçalho do resumo (ex.: abrir página, copiar link). */
+  summaryActions?: React.ReactNode;
+};
+
+/** Resumo, módulos, registros e firmwares de uma release, com as ações de edição. */
+export default function ReleaseDetails({
+  release: r,
+  editor,
+  summaryActions,
+}: ReleaseDetailsProps) {
+  const canEdit = can("release:edit");
+  const canDelete = can("release:delete");
+  const showActions = canEdit || canDelete;
+  const mods = r.modules ?? [];
+  const ents = r.entries ?? [];
+
+  return (
+    <div className="space-y-6">
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-semibold">Resumo</h4>
+          <div className="flex gap-2">
+            {summaryActions}
+            {canEdit && (
+              <button
+                onClick={() => editor.openReleaseEdit(r)}
+                className="px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer"
+              >
+                Editar Release
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => editor.askDeleteRelease(r)}
+                className="px-2 py-1 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-xs cursor-pointer"
+              >
+                Excluir Release
+              </button>
+            )}
+          </div>
+        </div>
+        <ul className="text-sm list-disc pl-5 space-y-1">
+          <li>Produto: {r.productName}</li>
+          <li>Categoria: {r.productCategory}</li>
+          <li>Status: {labelStatus(r.status)}</li>
+          <li>Data de Cadastro: {fmtDate(r.createdAt)}</li>
+        </ul>
+        <ul className="text-sm list-disc pl-5 space-y-1">
+          <li>Versão anterior: {r.previousVersion || "-"}</li>
+          <li>Atualização via OTA: {r.ota ? "sim" : "não"}</li>
+          {r.otaObs && <li>Observação para atualização: {r.otaObs}</li>}
+          <li>Data da Release: {fmtDate(r.releaseDate)}</li>
+          {r.importantNote && <li>Nota: {r.importantNote}</li>}
+        </ul>
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-semibold">Módulos</h4>
+          {canEdit && (
+            <button
+              onClick={() => editor.openModuleAdd(r)}
+              className="px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer"
+            >
+              Adicionar Módulo
+            </button>
+          )}
+        </div>
+        {(mods.length ?? 0) === 0 ? (
+          <p className="text-sm text-gray-500">Sem módulos</p>
+        ) : (
+          <div
+            className="overflow-x-auto"
+            style={{
+              WebkitOverflowScrolling: "touch",
+            }}
+          >
+            <table className="w-full text-sm border border-gray-200 dark:border-zinc-700 rounded-md overflow-hidden min-w-[560px]">
+              <thead className="bg-gray-100 dark:bg-zinc-900">
+                <tr className="whitespace-nowrap">
+                  <th className="px-3 py-2 text-left">Módulo</th>
+                  <th className="px-3 py-2 text-left">Versão</th>
+                  <th className="px-3 py-2 text-left">Atualizado</th>
+                  {showActions && (
+                    <th className="px-3 py-2 text-right">Ações</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {(mods ?? []).map((m) => (
+                  <tr
+                    key={m.id}
+                    className="border-t border-gray-200 dark:border-zinc-700"
+                  >
+                    <td className="px-3 py-2">{m.module}</td>
+                    <td className="px-3 py-2">{m.version}</td>
+                    <td className="px-3 py-2">{m.updated ? "sim" : "não"}</td>
+                    {showActions && (
+                      <td className="px-3 py-2 text-right space-x-2">
+                        {canEdit && (
+                          <button
+                            onClick={() => editor.openModuleEdit(r, m)}
+                            className="px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer"
+                          >
+                            Editar
+                          </button>
+                        )}
+                        {canDelete && (
+                          <button
+                            onClick={() => editor.askDeleteModule(r, m)}
+                            className="px-2 py-1 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-xs cursor-pointer"
+                          >
+                            Excluir
+                          </button>
+                        )}
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-semibold">Registros</h4>
+          {canEdit && (
+            <button
+              onClick={() => editor.openEntryAdd(r)}
+              className="px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer"
+            >
+              Adicionar Registro
+            </button>
+          )}
+        </div>
+        {(ents.length ?? 0) === 0 ? (
+          <p className="text-sm text-gray-500">Sem registros</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {(ents ?? []).map((e) => (
+              <li
+                key={e.id}
+                className="p-2 rounded-md border border-gray-200 dark:border-zinc-700"
+              >
+                <div className="flex justify-between mb-1">
+                  <span className="font-medium">
+                    #{e.itemOrder} • {e.classification}
+                  </span>
+                  <div className="flex items-center gap-2">
+                    {e.category && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-slate-200 dark:bg-zinc-700">
+                        {e.category}
+                      </span>
+                    )}
+                    {canEdit && (
+                      <button
+                        onClick={() => editor.openEntryEdit(r, e)}
+                        className="px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer"
+                      >
+                        Editar
+                      </button>
+                    )}
+                    {canDelete && (
+                      <button
+                        onClick={() => editor.askDeleteEntry(r, e)}
+                        className="px-2 py-1 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-xs cursor-pointer"
+                      >
+                        Excluir
+                      </button>
+                    )}
+                  </div>
+                </div>
+                <p className="text-gray-700 dark:text-gray-300">
+                  {e.observation}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section>
+        <div className="flex items-center justify-between mb-2">
+          <h4 className="font-semibold">Firmwares</h4>
+          {canEdit && (
+            <button
+              onClick={() => editor.openLinkAdd(r)}
+              className="px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer"
+            >
+              Adicionar Firmware
+            </button>
+          )}
+        </div>
+
+        {!r.links || r.links.length === 0 ? (
+          <p className="text-sm text-gray-500">Sem firmwares</p>
+        ) : (
+          <div
+            className="overflow-x-auto"
+            style={{
+              WebkitOverflowScrolling: "touch",
+            }}
+          >
+            <table className="w-full text-sm border border-gray-200 dark:border-zinc-700 rounded-md overflow-hidden min-w-[640px]">
+              <thead className="bg-gray-100 dark:bg-zinc-900">
+                <tr className="whitespace-nowrap">
+                  <th className="px-3 py-2 text-left">Módulo</th>
+                  <th className="px-3 py-2 text-left">Descrição</th>
+                  <th className="px-3 py-2 text-left">URL</th>
+                  {showActions && (
+                    <th className="px-3 py-2 text-right">Ações</th>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {(r.links ?? []).map((l) => (
+                  <tr
+                    key={l.id}
+                    className="border-t border-gray-200 dark:border-zinc-700"
+                  >
+                    <td className="px-3 py-2">{l.module}</td>
+                    <td className="px-3 py-2">{l.description}</td>
+                    <td className="px-3 py-2">
+                      <a
+                        href={l.url}
+                        target="_blank"
+                        rel="noreferrer"
+                        className="text-blue-600 hover:underline break-all"
+                      >
+                        {l.url}
+                      </a>
+                    </td>
+                    {showActions && (
+                      <td className="px-3 py-2 text-right space-x-2">
+                        <div className="flex gap-2 ">
+                          {canEdit && (
+                            <button
+                              onClick={() => editor.openLinkEdit(r, l)}
+                              className="px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer"
+                            >
+                              Editar
+                            </button>
+                          )}
+                          {canDelete && (
+                            <button
+                              onClick={() => editor.askDeleteLink(r, l)}
+                              className="px-2 py-1 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-xs cursor-pointer"
+                            >
+                              Excluir
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+// src/components/dashboard/components/releaseFormat.ts
+import type { Release } from "../../../services/models";
+
+export const fmtDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("pt-BR", {
+    timeZone: "America/Sao_Paulo",
+  });
+
+export const statusPill = (status: Release["status"]) => {
+  const s = String(status ?? "").toLowerCase();
+  const base =
+    "inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium";
+  if (s === "producao")
+    return `${base} bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300`;
+  if (s === "revisao")
+    return `${base} bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300`;
+  if (s === "descontinuado")
+    return `${base} bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300`;
+  return `${base} bg-gray-100 text-gray-700 dark:bg-zinc-800 dark:text-gray-300`;
+};
+
+export const labelStatus = (status: Release["status"]) => {
+  const s = String(status ?? "").toLowerCase();
+  if (s === "producao") return "Produção";
+  if (s === "revisao") return "Revisão";
+  if (s === "descontinuado") return "Descontinuado";
+  return String(status ?? "");
+};
@@ -0,0 +1,580 @@
+// src/components/dashboard/components/releaseModals.tsx
+import React, { useEffect, useState, memo } from "react";
+import { createPortal } from "react-dom";
+import type {
+  Release,
+  ReleaseEntry,
+  ReleaseLink,
+  ReleaseModule,
+} from "../../../services/models";
+import type { ConfirmState, LinkDraft, ModalState } from "./releaseTypes";
+import { useOnlineStatus } from "../../../hooks/useOnlineStatus";
+import type { FieldErrors } from "../../../services/apiError";
+import {
+  FIRMWARE_EXTENSIONS,
+  formatBytes,
+  validateFirmwareFile,
+  type UploadProgress,
+} from "../../../services/uploads";
+import UploadProgressPanel from "../../uploadProgress";
+
+/** ===== Modais em Portal ===== */
+
+export type EditModalProps = {
+  modal: ModalState;
+  setModal: React.Dispatch<React.SetStateAction<ModalState>>;
+  saving: boolean;
+  onClose: () => void;
+  saveRelease: () => Promise<void>;
+  saveModule: () => Promise<void>;
+  saveEntry: () => Promise<void>;
+  saveLink: () => Promise<void>;
+  askDeleteLink: (r: Release, l: ReleaseLink) => void;
+  askDeleteRelease: (r: Release) => void;
+  askDeleteModule: (r: Release, m: ReleaseModule) => void;
+  askDeleteEntry: (r: Release, e: ReleaseEntry) => void;
+  canDelete: boolean;
+  canPublish: boolean;
+  canUpload: boolean;
+  /** Erros por campo devolvidos pelo backend no último envio. */
+  fieldErrors: FieldErrors;
+  clearFieldErrors: (fields: string[]) => void;
+  setFieldError: (field: string, message: string) => void;
+  /** Envio de firmware em andamento (modal de link). */
+  uploadProgress: UploadProgress | null;
+  cancelUpload: () => void;
+};
+
+const EditModal = memo(function EditModal({
+  modal,
+  setModal,
+  saving,
+  onClose,
+  saveRelease,
+  saveModule,
+  saveEntry,
+  saveLink,
+  askDeleteRelease,
+  askDeleteModule,
+  askDeleteEntry,
+  askDeleteLink,
+  canDelete,
+  canPublish,
+  canUpload,
+  fieldErrors,
+  clearFieldErrors,
+  setFieldError,
+  uploadProgress,
+  cancelUpload,
+}: EditModalProps) {
+  const online = useOnlineStatus();
+  if (!modal.open) return null;
+  const common =
+    "w-full px-3 py-2 rounded-md border border-gray-300 text-sm bg-white dark:bg-white text-gray-900 dark:text-gray-900 placeholder:text-gray-500";
+  const linkFile =
+    modal.type === "link" ? (modal.data as LinkDraft)._file : null;
+  const inputClass = (field: string) =>
+    fieldErrors[field]
+      ? common.replace("border-gray-300", "border-rose-400")
+      : common;
+  const fieldError = (field: string) =>
+    fieldErrors[field] ? (
+      <p className="text-[11px] text-rose-600 mt-1">{fieldErrors[field]}</p>
+    ) : null;
+  const setField = (
+    patch:
+      | Partial<Release>
+      | Partial<ReleaseModule>
+      | Partial<ReleaseEntry>
+      | LinkDraft
+  ) => {
+    setModal((prev) =>
+      prev.open ? { ...prev, data: { ...prev.data, ...patch } } : prev
+    );
+    clearFieldErrors(Object.keys(patch));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center"
+      aria-modal="true"
+      role="dialog"
+      onMouseDown={onClose}
+    >
+      <div className="absolute inset-0 bg-black/40" />
+      <div
+        className="relative w-full max-w-xl rounded-xl border border-gray-200 bg-white dark:bg-white text-gray-900 dark:text-gray-900 p-5 shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <div className="mb-3">
+          <h3 className="text-lg font-semibold">
+            {modal.type === "release" &&
+              (modal.mode === "edit" ? "Editar Release" : "Adicionar Release")}
+            {modal.type === "module" &&
+              (modal.mode === "edit" ? "Editar Módulo" : "Adicionar Módulo")}
+            {modal.type === "entry" &&
+              (modal.mode === "edit"
+                ? "Editar Registro"
+                : "Adicionar Registro")}
+            {modal.type === "link" &&
+              (modal.mode === "edit"
+                ? "Editar Firmware"
+                : "Adicionar Firmware")}{" "}
+          </h3>
+          <p className="text-xs text-gray-500">
+            ID Release: {modal.release.id}
+          </p>
+        </div>
+
+        {/* ...todo resto inalterado... */}
+        {/* Mantive exatamente seu conteúdo abaixo, sem mexer em tamanhos */}
+        {/* RELEASE */}
+        {modal.type === "release" && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs block mb-1">Versão</label>
+                <input
+                  className={inputClass("version")}
+                  value={(modal.data as any).version ?? ""}
+                  onChange={(e) => setField({ version: e.target.value })}
+                />
+                {fieldError("version")}
+              </div>
+              <div>
+                <label className="text-xs block mb-1">Versão anterior</label>
+                <input
+                  className={inputClass("previousVersion")}
+                  value={(modal.data as any).previousVersion ?? ""}
+                  onChange={(e) =>
+                    setField({ previousVersion: e.target.value })
+                  }
+                />
+                {fieldError("previousVersion")}
+              </div>
+              <div>
+                <label className="text-xs block mb-1">Produto</label>
+                <input
+                  className={inputClass("productName")}
+                  value={(modal.data as any).productName ?? ""}
+                  onChange={(e) => setField({ productName: e.target.value })}
+                />
+                {fieldError("productName")}
+              </div>
+              <div>
+                <label className="text-xs block mb-1">Categoria</label>
+                <select
+                  className={inputClass("productCategory")}
+                  value={(modal.data as any).productCategory ?? ""}
+                  onChange={(e) =>
+                    setField({ productCategory: e.target.value })
+                  }
+                >
+                  <option value="">Selecione...</option>
+                  <option value="AC">AC</option>
+                  <option value="DC">DC</option>
+                </select>
+                {fieldError("productCategory")}
+              </div>
+              <div>
+                <label className="text-xs block mb-1">Status</label>
+                <select
+                  className={inputClass("status")}
+                  value={(modal.data as any).status ?? "revisao"}
+                  onChange={(e) => setField({ status: e.target.value })}
+                >
+                  <option value="producao" disabled={!canPublish}>
+                    Produção
+                  </option>
+                  <option value="revisao">Revisão</option>
+                  <option value="descontinuado">Descontinuado</option>
+                </select>
+                {fieldError("status")}
+              </div>
+              <div>
+                <label className="text-xs block mb-1">Data da Release</label>
+                <input
+                  type="date"
+                  className={inputClass("releaseDate")}
+                  value={(modal.data as any).releaseDate ?? ""}
+                  onChange={(e) => setField({ releaseDate: e.target.value })}
+                />
+                {fieldError("releaseDate")}
+              </div>
+              <div className="col-span-2">
+                <label className="text-xs block mb-1">Nota</label>
+                <textarea
+                  className={inputClass("importantNote")}
+                  value={(modal.data as any).importantNote ?? ""}
+                  onChange={(e) => setField({ importantNote: e.target.value })}
+                  rows={4}
+                />
+                {fieldError("importantNote")}
+              </div>
+              <div className="col-span-2 grid grid-cols-2 gap-3">
+                <label className="inline-flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!!(modal.data as any).ota}
+                    onChange={(e) => setField({ ota: e.target.checked })}
+                  />
+                  Atualizável via OTA?
+                </label>
+                <input
+                  className={inputClass("otaObs")}
+                  placeholder="Obs OTA"
+                  value={(modal.data as any).otaObs ?? ""}
+                  onChange={(e) => setField({ otaObs: e.target.value })}
+                />
+                {fieldError("otaObs")}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* MODULE */}
+        {modal.type === "module" && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs block mb-1">Módulo</label>
+              <input
+                className={inputClass("module")}
+                value={(modal.data as any).module ?? ""}
+                onChange={(e) => setField({ module: e.target.value })}
+              />
+              {fieldError("module")}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="text-xs block mb-1">Versão</label>
+                <input
+                  className={inputClass("version")}
+                  value={(modal.data as any).version ?? ""}
+                  onChange={(e) => setField({ version: e.target.value })}
+                />
+                {fieldError("version")}
+              </div>
+              <label className="inline-flex items-center gap-2 text-sm mt-6">
+                <input
+                  type="checkbox"
+                  checked={!!(modal.data as any).updated}
+                  onChange={(e) => setField({ updated: e.target.checked })}
+                />
+                Atualizado
+              </label>
+            </div>
+          </div>
+        )}
+
+        {/* ENTRY */}
+        {modal.type === "entry" && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="text-xs block mb-1">Ordem</label>
+                <input
+                  type="number"
+                  className={inputClass("itemOrder")}
+                  value={(modal.data as any).itemOrder ?? 1}
+                  onChange={(e) =>
+                    setField({ itemOrder: Number(e.target.value) })
+                  }
+                />
+                {fieldError("itemOrder")}
+              </div>
+              <div className="col-span-2">
+                <label className="text-xs block mb-1">Classificação</label>
+                <input
+                  className={inputClass("classification")}
+                  value={(modal.data as any).classification ?? ""}
+                  onChange={(e) => setField({ classification: e.target.value })}
+                />
+                {fieldError("classification")}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 gap-3">
+              <div>
+                <label className="text-xs block mb-1">Observação</label>
+                <textarea
+                  className={inputClass("observation")}
+                  rows={3}
+                  value={(modal.data as any).observation ?? ""}
+                  onChange={(e) => setField({ observation: e.target.value })}
+                />
+                {fieldError("observation")}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* LINK */}
+        {modal.type === "link" && (
+          <div className="space-y-3">
+            <div>
+              <label className="text-xs block mb-1">Módulo</label>
+              <input
+                className={inputClass("module")}
+                value={(modal.data as any).module ?? ""}
+                onChange={(e) => setField({ module: e.target.value })}
+              />
+              {fieldError("module")}
+            </div>
+
+            <div>
+              <label className="text-xs block mb-1">Descrição</label>
+              <textarea
+                className={inputClass("description")}
+                rows={3}
+                placeholder="Descreva o firmware"
+                value={(modal.data as any).description ?? ""}
+                onChange={(e) => setField({ description: e.target.value })}
+              />
+              {fieldError("description")}
+            </div>
+
+            <div>
+              <label className="text-xs block mb-1">URL</label>
+              <input
+                className={inputClass("url")}
+                value={(modal.data as any).url ?? ""}
+                onChange={(e) => setField({ url: e.target.value })}
+                placeholder="https://..."
+              />
+              {fieldError("url")}
+            </div>
+
+            {/* SELEÇÃO DE ARQUIVO */}
+            {canUpload && (
+              <div>
+                <label className="text-xs block mb-1">
+                  Arquivo (opcional, substitui a URL)
+                </label>
+
+                <div className="flex items-center gap-3">
+                  {/* Botão estilizado que dispara o input real */}
+                  <button
+                    type="button"
+                    onClick={() =>
+                      document.getElementById("fileInputHidden")?.click()
+                    }
+                    className="cursor-pointer px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium"
+                  >
+                    Selecionar arquivo
+                  </button>
+
+                  {/* Nome do arquivo selecionado */}
+                  <span
+                    className={`text-sm truncate max-w-[240px] ${
+                      fieldErrors._file ? "text-rose-600" : "text-gray-700"
+                    }`}
+                  >
+                    {linkFile
+                      ? `${linkFile.name} (${formatBytes(linkFile.size)})`
+                      : "Nenhum arquivo selecionado"}
+                  </span>
+                </div>
+
+                {/* Input real oculto */}
+                <input
+                  id="fileInputHidden"
+                  type="file"
+                  accept={FIRMWARE_EXTENSIONS.join(",")}
+                  className="hidden"
+                  onChange={(e) => {
+                    const file =
+                      e.target.files && e.target.files[0]
+                        ? e.target.files[0]
+                        : null;
+                    e.target.value = "";
+                    const error = file ? validateFirmwareFile(file) : null;
+                    setField({ _file: error ? null : file });
+                    if (error) setFieldError("_file", error);
+                  }}
+                />
+                {fieldError("_file")}
+
+                <p className="text-[11px] text-gray-500 mt-1">
+                  Se escolher um arquivo, a URL acima será ignorada e o link
+                  será criado a partir do upload.
+                </p>
+              </div>
+            )}
+
+            {/* DIRETÓRIO DE UPLOAD */}
+            {canUpload && (
+              <div>
+                <label className="text-xs block mb-1">
+                  Diretório de upload (opcional)
+                </label>
+                <input
+                  className="w-full px-3 py-2 rounded-md border border-gray-300 text-sm bg-white"
+                  placeholder="Ex.: AC/CVE-AC-7kW"
+                  value={
+                    (modal.data as any)._dir ||
+                    `${modal.release.productCategory || ""}/${
+                      modal.release.productName || ""
+                    }`
+                  }
+                  onChange={(e) =>
+                    setModal((prev) => ({
+                      ...(prev as any),
+                      data: {
+                        ...((prev as any).data || {}),
+                        _dir: e.target.value,
+                      },
+                    }))
+                  }
+                />
+                <p className="text-[11px] text-gray-500 mt-1">
+                  Se vazio, o arquivo vai para o diretório atual{" "}
+                  {`"${modal.release.productCategory}/${modal.release.productName}"`}
+                  .
+                </p>
+              </div>
+            )}
+          </div>
+        )}
+
+        {uploadProgress && (
+          <div className="mt-4">
+            <UploadProgressPanel
+              progress={uploadProgress}
+              onCancel={cancelUpload}
+            />
+          </div>
+        )}
+
+        <div className="mt-5 flex justify-between gap-2">
+          {modal.mode === "edit" && canDelete && (
+            <button
+              onClick={() => {
+                if (modal.type === "release")
+                  return askDeleteRelease(modal.release);
+                if (modal.type === "module")
+                  return askDeleteModule(
+                    modal.release,
+                    modal.data as ReleaseModule
+                  );
+                if (modal.type === "entry")
+                  return askDeleteEntry(
+                    modal.release,
+                    modal.data as ReleaseEntry
+                  );
+                if (modal.type === "link")
+                  return askDeleteLink(
+                    modal.release,
+                    modal.data as ReleaseLink
+                  );
+              }}
+              className="px-3 py-2 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-sm disabled:opacity-50"
+              disabled={saving || !online}
+            >
+              Excluir
+            </button>
+          )}
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={onClose}
+              className="px-3 py-2 rounded-md border dark:border-zinc-700 hover:bg-gray-100 text-sm"
+              disabled={saving}
+            >
+              Cancelar
+            </button>
+            <button
+              onClick={() => {
+                if (modal.type === "release") return saveRelease();
+                if (modal.type === "module") return saveModule();
+                if (modal.type === "entry") return saveEntry();
+                if (modal.type === "link") return saveLink();
+              }}
+              disabled={saving || !online}
+              className="px-3 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm"
+            >
+              {saving ? "Salvando..." : "Salvar"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export function EditModalPortal(props: EditModalProps) {
+  const [host, setHost] = useState<HTMLElement | null>(null);
+  useEffect(() => {
+    let el = document.getElementById("modal-root") as HTMLElement | null;
+    if (!el) {
+      el = document.createElement("div");
+      el.id = "modal-root";
+      document.body.appendChild(el);
+    }
+    setHost(el);
+  }, []);
+  if (!host) return null;
+  return createPortal(<EditModal {...props} />, host);
+}
+
+export type ConfirmPortalProps = {
+  confirm: ConfirmState;
+  setConfirm: React.Dispatch<React.SetStateAction<ConfirmState>>;
+  doConfirmedDelete: () => Promise<void>;
+};
+
+const ConfirmModal = memo(function ConfirmModal({
+  confirm,
+  setConfirm,
+  doConfirmedDelete,
+}: ConfirmPortalProps) {
+  const online = useOnlineStatus();
+  if (!confirm.open) return null;
+  return (
+    <div
+      className="fixed inset-0 z-[110] flex items-center justify-center"
+      aria-modal="true"
+      role="dialog"
+      onMouseDown={() => setConfirm({ open: false })}
+    >
+      <div className="absolute inset-0 bg-black/40" />
+      <div
+        className="relative w-full max-w-md rounded-xl border border-gray-200 bg-white dark:bg-white text-gray-900 dark:text-gray-900 p-5 shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold mb-1">{confirm.title}</h3>
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {confirm.message}
+        </p>
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            onClick={() => setConfirm({ open: false })}
+            className="px-3 py-2 rounded-md border dark:border-zinc-700 hover:bg-gray-100  text-sm"
+            disabled={confirm.busy}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={doConfirmedDelete}
+            className="px-3 py-2 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-sm disabled:opacity-50"
+            disabled={confirm.busy || !online}
+          >
+            {confirm.busy ? "Excluindo..." : "Excluir"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+export function ConfirmPortal(props: ConfirmPortalProps) {
+  const [host, setHost] = useState<HTMLElement | null>(null);
+  useEffect(() => {
+    let el = document.getElementById("confirm-root") as HTMLElement | null;
+    if (!el) {
+      el = document.createElement("div");
+      el.id = "confirm-root";
+      document.body.appendChild(el);
+    }
+    setHost(el);
+  }, []);
+  if (!host) return null;
+  return createPortal(<ConfirmModal {...props} />, host);
+}
@@ -0,0 +1,39 @@
+// src/components/dashboard/components/releaseTypes.ts
+// Estado de tela da edição de releases; os modelos ficam em services/models.
+import type {
+  Release,
+  ReleaseEntry,
+  ReleaseLink,
+  ReleaseModule,
+} from "../../../services/models";
+
+export type ModalMode = "add" | "edit";
+export type ModalType = "release" | "module" | "entry" | "link";
+export type ModalState =
+  | {
+      open: true;
+      type: ModalType;
+      mode: ModalMode;
+      release: Release;
+      data:
+        | Partial<Release>
+        | Partial<ReleaseModule>
+        | Partial<ReleaseEntry>
+        | Partial<ReleaseLink>;
+    }
+  | { open: false };
+
+export type ConfirmState =
+  | {
+      open: true;
+      title: string;
+      message: string;
+      onConfirm: () => Promise<void>;
+      busy?: boolean;
+    }
+  | { open: false };
+
+export type LinkDraft = Partial<ReleaseLink> & {
+  _file?: File | null;
+  _dir?: string | null;
+};
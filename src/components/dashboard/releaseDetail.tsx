@@ -0,0 +1,138 @@
+// src/components/dashboard/releaseDetail.tsx
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Link2, Loader, SearchX, TriangleAlert } from "lucide-react";
+import { toast } from "sonner";
+import { useReleaseEditor } from "../../hooks/useReleaseEditor";
+import { useRelease } from "../../hooks/useReleases";
+import ReleaseDetails from "./components/releaseDetails";
+import { labelStatus, statusPill } from "./components/releaseFormat";
+import { ConfirmPortal, EditModalPortal } from "./components/releaseModals";
+import { statusOf } from "../../services/apiError";
+import { isUnexpectedResponse } from "../../services/schema";
+import UnexpectedResponse from "../unexpectedResponse";
+
+type LoadState =
+  "carregando" | "ok" | "nao-encontrada" | "resposta-invalida" | "erro";
+
+const LIST_PATH = "/dashboard/firmwares";
+
+export default function ReleaseDetailPage() {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  const releaseId = /^\d+$/.test(id) ? Number(id) : null;
+  const { data: release, error, refetch } = useRelease(releaseId);
+  const status = statusOf(error);
+
+  // com a release na tela, falhas de revalidação não a escondem
+  const state: LoadState =
+    releaseId === null || status === 404
+      ? "nao-encontrada"
+      : release
+        ? "ok"
+        : isUnexpectedResponse(error)
+          ? "resposta-invalida"
+          : error
+            ? "erro"
+            : "carregando";
+
+  const editor = useReleaseEditor({
+    onReleaseDeleted: (r) => {
+      toast.success(`Release #${r.id} excluída.`);
+      navigate(LIST_PATH, { replace: true });
+    },
+  });
+
+  const copyLink = async () => {
+    const url = `${window.location.origin}/releases/${releaseId}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copiado.");
+    } catch {
+      toast.error("Não foi possível copiar o link.");
+    }
+  };
+
+  const btn =
+    "inline-flex items-center gap-1 px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer";
+
+  return (
+    <div className="md:py-6 md:px-40 md:mt-10 p-6 space-y-4">
+      <Link
+        to={LIST_PATH}
+        className="inline-flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300 hover:underline"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        Voltar para firmwares
+      </Link>
+
+      {state === "carregando" && (
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader className="animate-spin w-5 h-5" />
+          Carregando release...
+        </div>
+      )}
+
+      {state === "resposta-invalida" && (
+        <div className="rounded-xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700 bg-white dark:bg-zinc-900 px-4 py-8">
+          <UnexpectedResponse onRetry={refetch} />
+        </div>
+      )}
+
+      {(state === "nao-encontrada" || state === "erro") && (
+        <div className="rounded-xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700 bg-white dark:bg-zinc-900 px-4 py-8 text-center text-gray-500 dark:text-gray-400">
+          {state === "nao-encontrada" ? (
+            <>
+              <SearchX
+                className="w-16 h-16 mx-auto mb-2 text-gray-400 dark:text-gray-500"
+                strokeWidth={1}
+              />
+              Release #{id} não encontrada.
+            </>
+          ) : (
+            <>
+              <TriangleAlert
+                className="w-16 h-16 mx-auto mb-2 text-rose-400"
+                strokeWidth={1}
+              />
+              Falha ao carregar a release.
+              <div className="mt-4">
+                <button onClick={() => refetch()} className={btn}>
+                  Tentar novamente
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {state === "ok" && release && (
+        <div className="rounded-xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700 bg-white dark:bg-zinc-900 p-4 space-y-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <h2 className="text-xl font-semibold">
+              Release #{release.id} • {release.version}
+            </h2>
+            <span className={statusPill(release.status)}>
+              {labelStatus(release.status)}
+            </span>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {release.productCategory} / {release.productName}
+            </span>
+          </div>
+          <ReleaseDetails
+            release={release}
+            editor={editor}
+            summaryActions={
+              <button onClick={copyLink} className={btn}>
+                <Link2 className="w-3.5 h-3.5" />
+                Copiar link
+              </button>
+            }
+          />
+        </div>
+      )}
+
+      <EditModalPortal {...editor.modalProps} />
+      <ConfirmPortal {...editor.confirmProps} />
+    </div>
+  );
+}
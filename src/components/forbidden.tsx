@@ -0,0 +1,17 @@
+import { ShieldAlert } from "lucide-react";
+
+export default function Forbidden() {
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-2 p-8 text-center">
+      <ShieldAlert
+        className="w-16 h-16 text-gray-400 dark:text-gray-500"
+        strokeWidth={1}
+      />
+      <h2 className="text-xl font-semibold">Acesso negado</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 max-w-md">
+        Seu perfil não tem permissão para acessar esta área. Fale com a equipe
+        de CVE caso precise de acesso.
+      </p>
+    </div>
+  );
+}
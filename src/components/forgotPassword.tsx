@@ -0,0 +1,140 @@
+import { ClipboardList, Loader, Mail, MailCheck } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { toast } from "sonner";
+import { authApi } from "../services/authApi";
+import { errorMessage, fieldErrorsOf } from "../services/apiError";
+
+export default function ForgotPassword() {
+  const navigate = useNavigate();
+  const [email, setEmail] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [emailError, setEmailError] = useState<string | undefined>();
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (loading) return;
+
+    const value = email.trim();
+    if (!value) {
+      toast.error("Informe o e-mail cadastrado.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await authApi.forgotPassword(value);
+      setSent(true);
+    } catch (err) {
+      console.error("POST /auth/forgot-password error:", err);
+      setEmailError(fieldErrorsOf<"email">(err).email);
+      toast.error(
+        errorMessage(
+          err,
+          "Não foi possível solicitar a recuperação de senha. Tente novamente."
+        )
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleLogin = () => navigate("/login");
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-white text-black dark:bg-zinc-900 dark:text-white">
+      <div className="flex flex-col justify-center items-center transition-colors duration-300 bg-white text-black dark:bg-zinc-800 dark:text-white border-2 min-w-96 w-96 p-8 border-green-300 rounded-2xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700">
+        <ClipboardList size={64} className="mb-4" />
+        <h1 className="text-4xl font-bold">ChangeLog</h1>
+        <h2 className="mt-8 text-2xl">Esqueci minha senha</h2>
+
+        {sent ? (
+          <div className="flex flex-col items-center gap-4 mt-6 w-full text-center">
+            <MailCheck className="w-10 h-10 text-green-500" />
+            <p className="text-sm">
+              Se o e-mail <span className="font-medium">{email.trim()}</span>{" "}
+              estiver cadastrado, você receberá em instantes um link para
+              redefinir sua senha.
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              O link expira em pouco tempo e só pode ser usado uma vez.
+              Verifique também a caixa de spam.
+            </p>
+            <button
+              type="button"
+              onClick={handleLogin}
+              className="bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer"
+            >
+              Voltar para o login
+            </button>
+          </div>
+        ) : (
+          <>
+            <span className="text-center font-light mt-2">
+              Informe o e-mail da sua conta e enviaremos um link para você criar
+              uma nova senha.
+            </span>
+
+            <form
+              onSubmit={handleSubmit}
+              className="flex flex-col justify-center items-center gap-4 mt-8 w-full max-w-md"
+              noValidate
+            >
+              <label
+                className={`flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-green-50 dark:focus-within:bg-zinc-800 ${
+                  emailError ? "border-rose-400" : "border-green-300"
+                }`}
+              >
+                <Mail className="w-5 h-5 text-green-500" />
+                <div className="flex flex-row items-center gap-2 w-full">
+                  <span className="text-sm text-gray-600 dark:text-gray-300">
+                    Email:
+                  </span>
+                  <input
+                    type="email"
+                    name="email"
+                    className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
+                    value={email}
+                    onChange={(e) => {
+                      setEmail(e.target.value);
+                      setEmailError(undefined);
+                    }}
+                    placeholder="Digite seu e-mail"
+                    autoComplete="username"
+                    required
+                    aria-invalid={!!emailError}
+                  />
+                </div>
+              </label>
+              {emailError && (
+                <p className="w-full text-xs text-rose-600 -mt-3">
+                  {emailError}
+                </p>
+              )}
+
+              <button
+                disabled={loading}
+                className="flex items-center justify-center bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer disabled:opacity-70"
+              >
+                {loading ? (
+                  <Loader className="animate-spin w-5 h-5" />
+                ) : (
+                  "Enviar link"
+                )}
+              </button>
+            </form>
+
+            <button
+              type="button"
+              onClick={handleLogin}
+              className="mt-4 text-sm text-green-500 underline hover:text-green-600 transition-colors"
+            >
+              Lembrei minha senha
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
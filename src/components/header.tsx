@@ -1,55 +1,83 @@
-import { Moon, SunIcon, Menu, X, ClipboardList } from "lucide-react";
-import { useLayoutEffect, useState } from "react";
+import {
+  Moon,
+  SunIcon,
+  Menu as MenuIcon,
+  X,
+  ClipboardList,
+  ChevronDown,
+  LogOut,
+  UserCircle,
+  Search,
+} from "lucide-react";
+import { Menu, MenuButton, MenuItem, MenuItems } from "@headlessui/react";
+import { useState } from "react";
+import { NavLink, useMatch, useNavigate } from "react-router-dom";
+import type { Role } from "../utils/jwt";
+import {
+  ADMIN_ROLES,
+  EDITOR_ROLES,
+  hasAnyRole,
+  roleLabels,
+} from "../utils/permissions";
+import { useAuth } from "../contexts/authContext";
+import { useTheme } from "../hooks/useTheme";
+import { getConfig, isProduction } from "../services/config";
+
+type MenuItem = {
+  to: string;
+  text: string;
+  roles?: Role[];
+  /** Só fica ativo na rota exata (não nas filhas). */
+  end?: boolean;
+};
+
+const envLabels: Record<string, string> = {
+  staging: "Staging",
+  development: "Desenvolvimento",
+  local: "Local",
+};
+
+const menuItems: MenuItem[] = [
+  { to: "/dashboard/firmwares", text: "Firmwares", end: true },
+  {
+    to: "/dashboard/firmwares/novo",
+    text: "Cadastro de Firmwares",
+    roles: EDITOR_ROLES,
+  },
+  { to: "/dashboard/homologacoes", text: "Homologação" },
+  { to: "/dashboard/usuarios", text: "Usuários", roles: ADMIN_ROLES },
+];
+
+const PROFILE_PATH = "/dashboard/perfil";
 
 interface HeaderProps {
-  LogOut: () => void;
-  LogLicense: () => void;
-  LogKey: () => void;
-  LogHomologation: () => void;
+  onOpenPalette: () => void;
 }
 
-export default function Header({
-  LogOut,
-  LogLicense,
-  LogKey,
-  LogHomologation,
-}: HeaderProps) {
-  const [isDark, setIsDark] = useState(false);
-  const [buttonActive, setButtonActive] = useState<
-    "Firmwares" | "Cadastrar Firmwares" | "Homologação"
-  >("Firmwares");
+export default function Header({ onOpenPalette }: HeaderProps) {
+  const { logout, claims, user } = useAuth();
+  const navigate = useNavigate();
+  const profileActive = useMatch(PROFILE_PATH) !== null;
+  const { isDark, toggleTheme } = useTheme();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
-  useLayoutEffect(() => {
-    const root = document.documentElement;
-    if (isDark) root.classList.add("dark");
-    else root.classList.remove("dark");
-  }, [isDark]);
-
-  const handleLicenca = () => {
-    setButtonActive("Firmwares");
-    LogLicense();
-    setIsMobileMenuOpen(false);
-  };
-
-  const handleChave = () => {
-    setButtonActive("Cadastrar Firmwares");
-    LogKey();
-    setIsMobileMenuOpen(false);
-  };
+  const closeMobileMenu = () => setIsMobileMenuOpen(false);
 
   const handleSubmit = () => {
     setIsMobileMenuOpen(false);
-    setButtonActive("Firmwares");
-    LogOut();
+    logout();
+    // saída voluntária: não guarda a página atual para o próximo login
+    navigate("/login", { replace: true });
   };
 
-  const handleHomologation = () => {
-    setButtonActive("Homologação");
-    LogHomologation();
+  const handleProfile = () => {
     setIsMobileMenuOpen(false);
+    navigate(PROFILE_PATH);
   };
 
+  const role = claims?.role ?? null;
+  const visibleItems = menuItems.filter((item) => hasAnyRole(role, item.roles));
+
   return (
     <header className="w-full relative flex justify-between items-center transition-colors duration-300 bg-white text-black dark:bg-zinc-800 dark:text-white border-b-2 border-green-300 p-4">
       <div className="flex items-center gap-2">
@@ -57,93 +85,130 @@ export default function Header({
         <span className="text-2xl md:border-r-2 md:border-black pr-2 dark:border-white">
           ChangeLog - CVE
         </span>
+        {(!isProduction() || getConfig().mockApi) && (
+          <span
+            className="px-2 py-0.5 rounded-full text-xs font-semibold uppercase bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+            title={`API: ${getConfig().apiBaseUrl}`}
+          >
+            {envLabels[getConfig().environment] ?? getConfig().environment}
+            {getConfig().mockApi && " • mock"}
+          </span>
+        )}
 
         {/* Menu desktop */}
         <div className="hidden lg:flex gap-2 ml-4">
-          <button
-            onClick={handleLicenca}
-            className={`p-2 rounded-md text-sm hover:font-medium hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
-              buttonActive === "Firmwares"
-                ? "bg-zinc-200 dark:bg-zinc-400/10"
-                : ""
-            }`}
-          >
-            Firmwares
-          </button>
-          <button
-            onClick={handleChave}
-            className={`p-2 rounded-md text-sm hover:font-medium hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
-              buttonActive === "Cadastrar Firmwares"
-                ? "bg-zinc-200 dark:bg-zinc-400/10"
-                : ""
-            }`}
-          >
-            Cadastro de Firmwares
-          </button>
-          <button
-            onClick={handleHomologation}
-            className={`p-2 rounded-md text-sm hover:font-medium hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
-              buttonActive === "Homologação"
-                ? "bg-zinc-200 dark:bg-zinc-400/10"
-                : ""
-            }`}
-          >
-            Homologação
-          </button>
+          {visibleItems.map((item) => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              end={item.end}
+              className={({ isActive }) =>
+                `p-2 rounded-md text-sm hover:font-medium hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
+                  isActive ? "bg-zinc-200 dark:bg-zinc-400/10" : ""
+                }`
+              }
+            >
+              {item.text}
+            </NavLink>
+          ))}
         </div>
       </div>
 
       {/* Ações desktop */}
       <div className="hidden lg:flex items-center gap-4">
-        <button onClick={() => setIsDark(!isDark)}>
-          {isDark ? <SunIcon /> : <Moon />}
+        <button
+          onClick={onOpenPalette}
+          className="flex items-center gap-2 px-2 py-1 rounded-md border border-zinc-300 dark:border-zinc-600 text-sm text-gray-500 dark:text-gray-400 hover:bg-zinc-100 dark:hover:bg-zinc-400/10"
+          aria-label="Abrir paleta de comandos"
+        >
+          <Search size={16} />
+          Buscar...
+          <kbd className="text-xs font-sans px-1 rounded bg-zinc-100 dark:bg-zinc-700">
+            Ctrl K
+          </kbd>
         </button>
-        <button onClick={handleSubmit}>Sair</button>
+        <button onClick={toggleTheme}>{isDark ? <SunIcon /> : <Moon />}</button>
+        <Menu as="div" className="relative">
+          <MenuButton
+            className={`flex items-center gap-2 p-2 rounded-md text-sm hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
+              profileActive ? "bg-zinc-200 dark:bg-zinc-400/10" : ""
+            }`}
+          >
+            <UserCircle size={20} />
+            <span className="max-w-40 truncate">
+              {user?.name || user?.email || "Conta"}
+            </span>
+            <ChevronDown size={16} />
+          </MenuButton>
+          <MenuItems
+            anchor="bottom end"
+            className="z-50 mt-2 w-56 rounded-md border border-zinc-200 dark:border-zinc-700 bg-white dark:bg-zinc-800 text-black dark:text-white shadow-lg p-1 focus:outline-none"
+          >
+            <div className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 border-b border-zinc-200 dark:border-zinc-700 mb-1">
+              <p className="truncate">{user?.email}</p>
+              {user && <p>{roleLabels[user.role]}</p>}
+            </div>
+            <MenuItem>
+              <button
+                onClick={handleProfile}
+                className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm data-[focus]:bg-zinc-100 dark:data-[focus]:bg-zinc-400/10"
+              >
+                <UserCircle size={16} />
+                Meu perfil
+              </button>
+            </MenuItem>
+            <MenuItem>
+              <button
+                onClick={handleSubmit}
+                className="flex w-full items-center gap-2 rounded-md px-3 py-2 text-sm text-red-600 dark:text-red-300 data-[focus]:bg-red-100 dark:data-[focus]:bg-red-900/30"
+              >
+                <LogOut size={16} />
+                Sair
+              </button>
+            </MenuItem>
+          </MenuItems>
+        </Menu>
       </div>
 
       {/* Botão de menu mobile */}
       <div className="lg:hidden">
         <button onClick={() => setIsMobileMenuOpen(!isMobileMenuOpen)}>
-          {isMobileMenuOpen ? <X /> : <Menu />}
+          {isMobileMenuOpen ? <X /> : <MenuIcon />}
         </button>
       </div>
 
       {/* Menu Mobile Dropdown */}
       {isMobileMenuOpen && (
         <div className="absolute top-full left-0 w-full flex flex-col gap-2 bg-white dark:bg-zinc-800 p-4 border-t border-zinc-300 dark:border-zinc-600 z-50">
+          {visibleItems.map((item) => (
+            <NavLink
+              key={item.to}
+              to={item.to}
+              end={item.end}
+              onClick={closeMobileMenu}
+              className={({ isActive }) =>
+                `rounded-md p-2 text-left hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
+                  isActive ? "bg-zinc-200 dark:bg-zinc-400/10" : ""
+                }`
+              }
+            >
+              {item.text}
+            </NavLink>
+          ))}
           <button
-            onClick={handleLicenca}
-            className={`rounded-md p-2 text-left hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
-              buttonActive === "Firmwares"
-                ? "bg-zinc-200 dark:bg-zinc-400/10"
-                : ""
-            }`}
-          >
-            Firmwares
-          </button>
-          <button
-            onClick={handleChave}
-            className={`rounded-md p-2 text-left hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
-              buttonActive === "Cadastrar Firmwares"
-                ? "bg-zinc-200 dark:bg-zinc-400/10"
-                : ""
-            }`}
-          >
-            Cadastro de Firmwares
-          </button>
-
-          <button
-            onClick={handleHomologation}
-            className={`rounded-md p-2 text-left hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
-              buttonActive === "Homologação"
-                ? "bg-zinc-200 dark:bg-zinc-400/10"
-                : ""
-            }`}
+            onClick={() => {
+              closeMobileMenu();
+              onOpenPalette();
+            }}
+            className="rounded-md p-2 text-left hover:bg-zinc-100 dark:hover:bg-zinc-400/10"
           >
-            Homologação
+            <span className="flex items-center gap-2">
+              Buscar
+              <Search size={16} />
+            </span>
           </button>
           <button
-            onClick={() => setIsDark(!isDark)}
+            onClick={toggleTheme}
             className="rounded-md p-2 text-left hover:bg-zinc-100 dark:hover:bg-zinc-400/10"
           >
             {isDark ? (
@@ -158,6 +223,14 @@ export default function Header({
               </span>
             )}
           </button>
+          <button
+            onClick={handleProfile}
+            className={`rounded-md p-2 text-left hover:bg-zinc-100 dark:hover:bg-zinc-400/10 ${
+              profileActive ? "bg-zinc-200 dark:bg-zinc-400/10" : ""
+            }`}
+          >
+            Meu perfil
+          </button>
           <button
             onClick={handleSubmit}
             className="rounded-md p-2 text-left hover:bg-red-100 dark:hover:bg-red-900/30 text-red-600 dark:text-red-300"
@@ -0,0 +1,116 @@
+import { FileQuestion } from "lucide-react";
+import { Link, useLocation } from "react-router-dom";
+import { useAuth } from "../contexts/authContext";
+import type { Role } from "../utils/jwt";
+import { ADMIN_ROLES, EDITOR_ROLES, hasAnyRole } from "../utils/permissions";
+
+type KnownRoute = {
+  path: string;
+  label: string;
+  /** undefined → rota pública; [] → qualquer usuário autenticado */
+  roles?: Role[];
+};
+
+const KNOWN_ROUTES: KnownRoute[] = [
+  { path: "/login", label: "Entrar" },
+  { path: "/cadastro", label: "Criar conta" },
+  { path: "/solicitar-chave", label: "Solicitar chave de acesso" },
+  { path: "/acompanhar-solicitacao", label: "Acompanhar solicitação" },
+  { path: "/esqueci-senha", label: "Esqueci minha senha" },
+  { path: "/dashboard/firmwares", label: "Firmwares", roles: [] },
+  {
+    path: "/dashboard/firmwares/novo",
+    label: "Cadastro de Firmwares",
+    roles: EDITOR_ROLES,
+  },
+  { path: "/dashboard/homologacoes", label: "Homologação", roles: [] },
+  { path: "/dashboard/usuarios", label: "Usuários", roles: ADMIN_ROLES },
+  { path: "/dashboard/perfil", label: "Meu perfil", roles: [] },
+];
+
+const MAX_SUGGESTIONS = 3;
+
+function editDistance(a: string, b: string): number {
+  const prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(
+        prev[j] + 1,
+        prev[j - 1] + 1,
+        diag + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+}
+
+// Rotas parecidas com o endereço digitado (erro de digitação, barra a mais...)
+function suggest(pathname: string, routes: KnownRoute[]): KnownRoute[] {
+  const typed = pathname.toLowerCase().replace(/\/+$/, "") || "/";
+  return routes
+    .map((r) => ({ r, d: editDistance(typed, r.path) }))
+    .filter(({ r, d }) => d <= Math.max(3, Math.floor(r.path.length / 3)))
+    .sort((a, b) => a.d - b.d)
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ r }) => r);
+}
+
+export default function NotFound() {
+  const { pathname } = useLocation();
+  const { isAuthenticated, claims } = useAuth();
+  const role = claims?.role ?? null;
+
+  const available = KNOWN_ROUTES.filter((r) =>
+    isAuthenticated
+      ? r.roles !== undefined && hasAnyRole(role, r.roles)
+      : r.roles === undefined
+  );
+  const suggestions = suggest(pathname, available);
+
+  return (
+    <div className="h-full flex flex-col items-center justify-center gap-2 p-8 text-center">
+      <FileQuestion
+        className="w-16 h-16 text-gray-400 dark:text-gray-500"
+        strokeWidth={1}
+      />
+      <h2 className="text-xl font-semibold">Página não encontrada</h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 max-w-md">
+        O endereço <span className="font-mono break-all">{pathname}</span> não
+        existe ou foi movido.
+      </p>
+
+      {suggestions.length > 0 && (
+        <div className="mt-2 text-sm">
+          <p className="text-gray-500 dark:text-gray-400">Você quis dizer:</p>
+          <ul className="mt-1 space-y-1">
+            {suggestions.map((r) => (
+              <li key={r.path}>
+                <Link
+                  to={r.path}
+                  className="text-green-600 dark:text-green-400 hover:underline"
+                >
+                  {r.label}{" "}
+                  <span className="font-mono text-xs text-gray-500">
+                    {r.path}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Link
+        to={isAuthenticated ? "/dashboard/firmwares" : "/login"}
+        replace
+        className="mt-4 px-4 py-2 rounded-md bg-green-500 text-white text-sm hover:bg-green-600 transition"
+      >
+        {isAuthenticated ? "Voltar para o dashboard" : "Ir para o login"}
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+import { WifiOff } from "lucide-react";
+import { useOnlineStatus } from "../hooks/useOnlineStatus";
+
+export default function OfflineBanner() {
+  const online = useOnlineStatus();
+  if (online) return null;
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="w-full flex items-center justify-center gap-2 px-4 py-2 text-sm bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+    >
+      <WifiOff className="w-4 h-4" />
+      Sem conexão com a internet. Os dados exibidos podem estar desatualizados e
+      as alterações ficam desabilitadas até a conexão voltar.
+    </div>
+  );
+}
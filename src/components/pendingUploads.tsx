@@ -0,0 +1,55 @@
+import { History } from "lucide-react";
+import type { PendingUpload } from "../services/chunkedUpload";
+import { formatBytes } from "../services/uploads";
+
+interface PendingUploadsNoticeProps {
+  uploads: PendingUpload[];
+  onDiscard: (uploadId: string) => void;
+}
+
+// Envios em partes que ficaram pela metade (ver services/chunkedUpload)
+export default function PendingUploadsNotice({
+  uploads,
+  onDiscard,
+}: PendingUploadsNoticeProps) {
+  if (uploads.length === 0) return null;
+
+  return (
+    <div className="mb-4 rounded-md border border-amber-300 dark:border-amber-800 bg-amber-50 dark:bg-amber-950/30 p-3 text-sm space-y-2">
+      <div className="flex items-center gap-2 font-medium text-amber-800 dark:text-amber-300">
+        <History className="w-4 h-4" />
+        Envios interrompidos
+      </div>
+      <p className="text-xs text-amber-800/80 dark:text-amber-200/80">
+        Selecione o mesmo arquivo e salve novamente para continuar de onde
+        parou.
+      </p>
+      <ul className="space-y-1">
+        {uploads.map((u) => {
+          const done = u.url ? u.size : u.uploadedBytes;
+          return (
+            <li key={u.uploadId} className="flex items-center gap-2 text-xs">
+              <span className="truncate">
+                {u.fileName}{" "}
+                <span className="text-gray-500 dark:text-gray-400">
+                  ({u.dir || "firmwares"})
+                </span>
+              </span>
+              <span className="ml-auto whitespace-nowrap text-gray-600 dark:text-gray-300">
+                {Math.floor((done / u.size) * 100)}% • {formatBytes(done)} de{" "}
+                {formatBytes(u.size)}
+              </span>
+              <button
+                type="button"
+                onClick={() => onDiscard(u.uploadId)}
+                className="px-2 py-0.5 rounded-md border border-amber-400 hover:bg-amber-100 dark:hover:bg-amber-900/40 cursor-pointer"
+              >
+                Descartar
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
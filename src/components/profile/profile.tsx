@@ -0,0 +1,290 @@
+// src/components/profile/profile.tsx
+import React, { useState } from "react";
+import { Eye, EyeOff, Loader, UserCircle } from "lucide-react";
+import { toast } from "sonner";
+import { authApi } from "../../services/authApi";
+import { usersApi } from "../../services/usersApi";
+import { useAuth } from "../../contexts/authContext";
+import { roleLabels } from "../../utils/permissions";
+import {
+  MIN_PASSWORD_LENGTH,
+  passwordsMismatch,
+  validatePassword,
+} from "../../utils/password";
+import { useOnlineStatus } from "../../hooks/useOnlineStatus";
+import { errorMessage, fieldErrorsOf, statusOf } from "../../services/apiError";
+
+type PasswordForm = "currentPassword" | "password";
+
+type PasswordFieldProps = {
+  label: string;
+  name: string;
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  autoComplete: string;
+  invalid?: boolean;
+  /** Mensagem exibida abaixo do campo; também o destaca. */
+  error?: string;
+};
+
+function PasswordField({
+  label,
+  name,
+  value,
+  onChange,
+  autoComplete,
+  invalid,
+  error,
+}: PasswordFieldProps) {
+  const [show, setShow] = useState(false);
+  invalid = invalid || !!error;
+  return (
+    <label className="flex flex-col gap-1 text-sm">
+      <span className="text-gray-600 dark:text-gray-300">{label}</span>
+      <div className="relative flex items-center">
+        <input
+          type={show ? "text" : "password"}
+          name={name}
+          value={value}
+          onChange={onChange}
+          autoComplete={autoComplete}
+          aria-invalid={invalid}
+          className={`w-full px-3 py-2 pr-9 rounded-md border bg-white dark:bg-zinc-800 text-sm ${
+            invalid ? "border-rose-400" : "border-gray-300 dark:border-zinc-600"
+          }`}
+        />
+        <button
+          type="button"
+          onClick={() => setShow((s) => !s)}
+          aria-label={show ? "Ocultar senha" : "Mostrar senha"}
+          aria-pressed={show}
+          className="absolute right-2 p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          {show ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
+        </button>
+      </div>
+      {error && <span className="text-xs text-rose-600">{error}</span>}
+    </label>
+  );
+}
+
+export default function ProfilePage() {
+  const online = useOnlineStatus();
+  const { user, refresh } = useAuth();
+  const [name, setName] = useState(user?.name ?? "");
+  const [savingName, setSavingName] = useState(false);
+  const [savingPwd, setSavingPwd] = useState(false);
+  const [nameError, setNameError] = useState<string | undefined>();
+  const [pwdErrors, setPwdErrors] = useState<
+    Partial<Record<PasswordForm, string>>
+  >({});
+  const [pwd, setPwd] = useState({
+    currentPassword: "",
+    password: "",
+    confirmPassword: "",
+  });
+
+  const updatePwd =
+    (key: keyof typeof pwd) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      setPwd((p) => ({ ...p, [key]: e.target.value }));
+      const field = key === "confirmPassword" ? "password" : key;
+      setPwdErrors((errs) => ({ ...errs, [field]: undefined }));
+    };
+
+  const mismatch = passwordsMismatch(pwd.password, pwd.confirmPassword);
+  const nameChanged = name.trim() !== "" && name.trim() !== (user?.name ?? "");
+
+  const handleName = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (savingName || !nameChanged) return;
+    setSavingName(true);
+    setNameError(undefined);
+    try {
+      await usersApi.updateMe({ name: name.trim() });
+      // o nome exibido vem do token; renova para refletir a alteração
+      try {
+        await refresh();
+      } catch (err) {
+        console.error("POST /auth/refresh error:", err);
+      }
+      toast.success("Nome atualizado.");
+    } catch (err) {
+      console.error("PATCH /users/me error:", err);
+      setNameError(fieldErrorsOf<"name">(err).name);
+      toast.error(errorMessage(err, "Falha ao atualizar o nome."));
+    } finally {
+      setSavingName(false);
+    }
+  };
+
+  const handlePassword = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (savingPwd) return;
+
+    if (!pwd.currentPassword) {
+      toast.error("Informe a senha atual.");
+      return;
+    }
+    const pwdError = validatePassword(pwd.password, pwd.confirmPassword);
+    if (pwdError) {
+      toast.error(pwdError);
+      return;
+    }
+    if (pwd.password === pwd.currentPassword) {
+      toast.error("A nova senha deve ser diferente da atual.");
+      return;
+    }
+
+    setSavingPwd(true);
+    setPwdErrors({});
+    try {
+      await authApi.changePassword(pwd.currentPassword, pwd.password);
+      toast.success("Senha alterada com sucesso.");
+      setPwd({ currentPassword: "", password: "", confirmPassword: "" });
+    } catch (err) {
+      console.error("POST /auth/change-password error:", err);
+      const status = statusOf(err);
+      if (status === 401 || status === 403) {
+        setPwdErrors({ currentPassword: "Senha atual incorreta." });
+      } else if (status === 400) {
+        const fields = fieldErrorsOf<PasswordForm>(err, {
+          newPassword: "password",
+        });
+        setPwdErrors(
+          Object.keys(fields).length > 0
+            ? fields
+            : { password: "A nova senha não atende aos requisitos." }
+        );
+      } else {
+        toast.error(
+          errorMessage(err, "Falha ao alterar a senha. Tente novamente.")
+        );
+      }
+    } finally {
+      setSavingPwd(false);
+    }
+  };
+
+  const card =
+    "rounded-xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700 bg-white dark:bg-zinc-900 p-5";
+  const primary =
+    "flex items-center justify-center gap-2 px-4 py-2 rounded-md bg-green-500 text-white text-sm hover:bg-green-600 transition cursor-pointer disabled:opacity-60";
+
+  return (
+    <div className="md:py-6 md:px-40 md:mt-10 space-y-4 max-w-4xl">
+      {/* Dados da conta */}
+      <section className={card}>
+        <div className="flex items-center gap-3 mb-4">
+          <UserCircle className="w-10 h-10 text-green-500" />
+          <div>
+            <h2 className="text-lg font-semibold">Meu perfil</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {user?.email ?? "—"}
+            </p>
+          </div>
+          {user && (
+            <span className="ml-auto px-2 py-1 rounded-full text-xs bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">
+              {roleLabels[user.role]}
+            </span>
+          )}
+        </div>
+
+        <form onSubmit={handleName} className="flex flex-col gap-3" noValidate>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-gray-600 dark:text-gray-300">
+              Nome de exibição
+            </span>
+            <input
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setNameError(undefined);
+              }}
+              autoComplete="name"
+              aria-invalid={!!nameError}
+              className={`w-full px-3 py-2 rounded-md border bg-white dark:bg-zinc-800 text-sm ${
+                nameError
+                  ? "border-rose-400"
+                  : "border-gray-300 dark:border-zinc-600"
+              }`}
+            />
+            {nameError && (
+              <span className="text-xs text-rose-600">{nameError}</span>
+            )}
+          </label>
+          <label className="flex flex-col gap-1 text-sm">
+            <span className="text-gray-600 dark:text-gray-300">E-mail</span>
+            <input
+              value={user?.email ?? ""}
+              readOnly
+              className="w-full px-3 py-2 rounded-md border border-gray-200 dark:border-zinc-700 bg-gray-50 dark:bg-zinc-800/50 text-sm text-gray-500"
+            />
+          </label>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={savingName || !nameChanged || !online}
+              className={primary}
+            >
+              {savingName && <Loader className="animate-spin w-4 h-4" />}
+              Salvar nome
+            </button>
+          </div>
+        </form>
+      </section>
+
+      {/* Alterar senha */}
+      <section className={card}>
+        <h2 className="text-lg font-semibold mb-4">Alterar senha</h2>
+        <form
+          onSubmit={handlePassword}
+          className="flex flex-col gap-3"
+          noValidate
+        >
+          <PasswordField
+            label="Senha atual"
+            name="currentPassword"
+            value={pwd.currentPassword}
+            onChange={updatePwd("currentPassword")}
+            autoComplete="current-password"
+            error={pwdErrors.currentPassword}
+          />
+          <PasswordField
+            label="Nova senha"
+            name="password"
+            value={pwd.password}
+            onChange={updatePwd("password")}
+            autoComplete="new-password"
+            invalid={mismatch}
+            error={pwdErrors.password}
+          />
+          <PasswordField
+            label="Confirmar nova senha"
+            name="confirmPassword"
+            value={pwd.confirmPassword}
+            onChange={updatePwd("confirmPassword")}
+            autoComplete="new-password"
+            invalid={mismatch}
+          />
+          {mismatch ? (
+            <p className="text-xs text-rose-600">As senhas não coincidem.</p>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Mínimo de {MIN_PASSWORD_LENGTH} caracteres.
+            </p>
+          )}
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={savingPwd || mismatch || !online}
+              className={primary}
+            >
+              {savingPwd && <Loader className="animate-spin w-4 h-4" />}
+              Alterar senha
+            </button>
+          </div>
+        </form>
+      </section>
+    </div>
+  );
+}
@@ -1,47 +1,41 @@
-import React, { useMemo, useState, memo } from "react";
+import React, { useCallback, useMemo, useState, memo } from "react";
 import { useNavigate } from "react-router-dom";
-import api from "../../services/api";
 import { toast } from "sonner";
-
-type ModuleInput = { module: string; version: string; updated: boolean };
-type EntryInput = {
-  itemOrder: number;
-  classification: string;
-  observation: string;
-};
-
-// filename é só para UI (mostrar nome do arquivo selecionado)
-type ReleaseLinkInput = {
-  module: string;
-  description: string;
-  url: string;
-  filename?: string;
-};
-
-type Status = "revisao" | "producao" | "descontinuado";
-
-type NewReleaseInput = {
-  version: string;
-  previousVersion: string;
-  ota: boolean;
-  otaObs: string;
+import type {
+  FirmwareUpload,
+  ReleaseInput,
+  ReleaseLinkInput,
+  ReleaseStatus,
+} from "../../services/models";
+import { releasesApi } from "../../services/releasesApi";
+import { releasesCache } from "../../services/releasesCache";
+import { useOnlineStatus } from "../../hooks/useOnlineStatus";
+import { useUpload, type Upload } from "../../hooks/useUpload";
+import {
+  FIRMWARE_EXTENSIONS,
+  formatBytes,
+  validateFirmwareFile,
+} from "../../services/uploads";
+import UploadProgressPanel from "../uploadProgress";
+import PendingUploadsNotice from "../pendingUploads";
+import { discardUpload, pendingUploads } from "../../services/chunkedUpload";
+import {
+  errorMessage,
+  isApiError,
+  type FieldErrors,
+} from "../../services/apiError";
+
+// arquivo escolhido no modo upload; não vai no JSON da release
+type LinkFormInput = ReleaseLinkInput & { file?: File | null };
+
+type Status = ReleaseStatus;
+
+type NewReleaseInput = Omit<ReleaseInput, "status" | "links"> & {
   releaseDate: string; // YYYY-MM-DD
-  importantNote: string;
-  productCategory: string;
-  productName: string;
   status: Status;
-  modules: ModuleInput[];
-  entries: EntryInput[];
-  links: ReleaseLinkInput[];
+  links: LinkFormInput[];
 };
 
-function toApiDate(v?: string) {
-  if (!v) return undefined;
-  if (/^\d{4}-\d{2}-\d{2}$/.test(v)) return `${v}T00:00:00Z`;
-  const d = new Date(v);
-  return isNaN(d.getTime()) ? undefined : d.toISOString();
-}
-
 const commonInput =
   "w-full px-3 py-2 rounded-md border border-gray-300 dark:border-zinc-700 text-sm bg-white dark:bg-zinc-800 text-gray-900 dark:text-gray-100 placeholder:text-gray-500 dark:placeholder:text-gray-400";
 
@@ -57,6 +51,10 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
   setFwMode,
   fwDirName,
   setFwDirName,
+  fieldErrors,
+  clearFieldError,
+  setFieldError,
+  upload,
 }: {
   value: NewReleaseInput;
   setValue: React.Dispatch<React.SetStateAction<NewReleaseInput>>;
@@ -67,9 +65,29 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
   setFwMode: (m: FwMode) => void;
   fwDirName: string;
   setFwDirName: (s: string) => void;
+  /** Erros do backend; listas usam o caminho com índice (`links.0.url`). */
+  fieldErrors: FieldErrors;
+  clearFieldError: (path: string) => void;
+  setFieldError: (path: string, message: string) => void;
+  upload: Upload;
 }) {
-  const setField = (patch: Partial<NewReleaseInput>) =>
+  const setField = (patch: Partial<NewReleaseInput>) => {
     setValue((v) => ({ ...v, ...patch }));
+    Object.keys(patch).forEach(clearFieldError);
+  };
+
+  const inputClass = (path: string) =>
+    fieldErrors[path]
+      ? commonInput.replace(
+          "border-gray-300 dark:border-zinc-700",
+          "border-rose-400 dark:border-rose-500"
+        )
+      : commonInput;
+
+  const fieldError = (path: string) =>
+    fieldErrors[path] ? (
+      <p className="text-[11px] text-rose-600 mt-1">{fieldErrors[path]}</p>
+    ) : null;
 
   const addModule = () =>
     setValue((v) => ({
@@ -115,13 +133,14 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
   );
 
   const hasCategory = !!value.productCategory;
+  const online = useOnlineStatus();
 
   return (
     <form
       onSubmit={async (e) => {
         e.preventDefault();
         e.stopPropagation();
-        if (!saving && canSubmit) await onSubmit();
+        if (!saving && canSubmit && online) await onSubmit();
       }}
       className="rounded-xl border border-gray-200 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-gray-900 dark:text-gray-100 p-6 shadow-2xl"
     >
@@ -138,34 +157,37 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
           <div>
             <label className="text-xs block mb-1">Versão</label>
             <input
-              className={commonInput}
+              className={inputClass("version")}
               value={value.version}
               onChange={(e) => setField({ version: e.target.value })}
               placeholder="1.2.7"
             />
+            {fieldError("version")}
           </div>
           <div>
             <label className="text-xs block mb-1">Versão anterior</label>
             <input
-              className={commonInput}
+              className={inputClass("previousVersion")}
               value={value.previousVersion}
               onChange={(e) => setField({ previousVersion: e.target.value })}
               placeholder="1.2.6"
             />
+            {fieldError("previousVersion")}
           </div>
           <div>
             <label className="text-xs block mb-1">Produto</label>
             <input
-              className={commonInput}
+              className={inputClass("productName")}
               value={value.productName}
               onChange={(e) => setField({ productName: e.target.value })}
               placeholder="Nome do produto"
             />
+            {fieldError("productName")}
           </div>
           <div>
             <label className="text-xs block mb-1">Categoria</label>
             <select
-              className={commonInput}
+              className={inputClass("productCategory")}
               value={value.productCategory}
               onChange={(e) => setField({ productCategory: e.target.value })}
             >
@@ -173,11 +195,12 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
               <option value="AC">AC</option>
               <option value="DC">DC</option>
             </select>
+            {fieldError("productCategory")}
           </div>
           <div>
             <label className="text-xs block mb-1">Status</label>
             <select
-              className={commonInput}
+              className={inputClass("status")}
               value={value.status}
               onChange={(e) => setField({ status: e.target.value as Status })}
             >
@@ -185,25 +208,28 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
               <option value="revisao">Revisão</option>
               <option value="descontinuado">Descontinuado</option>
             </select>
+            {fieldError("status")}
           </div>
           <div>
             <label className="text-xs block mb-1">Data da Release</label>
             <input
               type="date"
-              className={commonInput}
+              className={inputClass("releaseDate")}
               value={value.releaseDate}
               onChange={(e) => setField({ releaseDate: e.target.value })}
             />
+            {fieldError("releaseDate")}
           </div>
           <div className="col-span-2">
             <label className="text-xs block mb-1">Nota</label>
             <textarea
-              className={commonInput}
+              className={inputClass("importantNote")}
               rows={3}
               value={value.importantNote}
               onChange={(e) => setField({ importantNote: e.target.value })}
               placeholder="Correções críticas"
             />
+            {fieldError("importantNote")}
           </div>
           <div className="col-span-2 grid grid-cols-2 gap-3">
             <label className="inline-flex items-center gap-2 text-sm">
@@ -215,11 +241,12 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
               Atualizável via OTA?
             </label>
             <input
-              className={commonInput}
+              className={inputClass("otaObs")}
               placeholder="Observações sobre OTA"
               value={value.otaObs}
               onChange={(e) => setField({ otaObs: e.target.value })}
             />
+            {fieldError("otaObs")}
           </div>
         </div>
       </div>
@@ -258,10 +285,11 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                 >
                   <td className="px-3 py-2">
                     <input
-                      className={commonInput}
+                      className={inputClass(`modules.${idx}.module`)}
                       value={m.module}
                       onChange={(e) => {
                         const module = e.target.value;
+                        clearFieldError(`modules.${idx}.module`);
                         setValue((v) => {
                           const modules = [...v.modules];
                           modules[idx] = { ...modules[idx], module };
@@ -270,13 +298,15 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                       }}
                       placeholder="Display"
                     />
+                    {fieldError(`modules.${idx}.module`)}
                   </td>
                   <td className="px-3 py-2">
                     <input
-                      className={commonInput}
+                      className={inputClass(`modules.${idx}.version`)}
                       value={m.version}
                       onChange={(e) => {
                         const version = e.target.value;
+                        clearFieldError(`modules.${idx}.version`);
                         setValue((v) => {
                           const modules = [...v.modules];
                           modules[idx] = { ...modules[idx], version };
@@ -285,6 +315,7 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                       }}
                       placeholder="1.66"
                     />
+                    {fieldError(`modules.${idx}.version`)}
                   </td>
                   <td className="px-3 py-2">
                     <label className="inline-flex items-center gap-2">
@@ -347,10 +378,11 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                     <label className="text-xs block mb-1">Ordem</label>
                     <input
                       type="number"
-                      className={commonInput}
+                      className={inputClass(`entries.${idx}.itemOrder`)}
                       value={e.itemOrder}
                       onChange={(ev) => {
                         const itemOrder = Number(ev.target.value);
+                        clearFieldError(`entries.${idx}.itemOrder`);
                         setValue((v) => {
                           const entries = [...v.entries];
                           entries[idx] = { ...entries[idx], itemOrder };
@@ -358,14 +390,16 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                         });
                       }}
                     />
+                    {fieldError(`entries.${idx}.itemOrder`)}
                   </div>
                   <div className="col-span-3">
                     <label className="text-xs block mb-1">Classificação</label>
                     <input
-                      className={commonInput}
+                      className={inputClass(`entries.${idx}.classification`)}
                       value={e.classification}
                       onChange={(ev) => {
                         const classification = ev.target.value;
+                        clearFieldError(`entries.${idx}.classification`);
                         setValue((v) => {
                           const entries = [...v.entries];
                           entries[idx] = { ...entries[idx], classification };
@@ -374,16 +408,18 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                       }}
                       placeholder="NOVO"
                     />
+                    {fieldError(`entries.${idx}.classification`)}
                   </div>
                 </div>
                 <div>
                   <label className="text-xs block mb-1">Observação</label>
                   <textarea
-                    className={commonInput}
+                    className={inputClass(`entries.${idx}.observation`)}
                     rows={3}
                     value={e.observation}
                     onChange={(ev) => {
                       const observation = ev.target.value;
+                      clearFieldError(`entries.${idx}.observation`);
                       setValue((v) => {
                         const entries = [...v.entries];
                         entries[idx] = { ...entries[idx], observation };
@@ -392,6 +428,7 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                     }}
                     placeholder="Descrição"
                   />
+                  {fieldError(`entries.${idx}.observation`)}
                 </div>
                 <div className="text-right">
                   <button
@@ -487,10 +524,11 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                       <div>
                         <label className="text-xs block mb-1">Módulo</label>
                         <input
-                          className={commonInput}
+                          className={inputClass(`links.${idx}.module`)}
                           value={l.module}
                           onChange={(e) => {
                             const module = e.target.value;
+                            clearFieldError(`links.${idx}.module`);
                             setValue((v) => {
                               const links = [...v.links];
                               links[idx] = { ...links[idx], module };
@@ -499,17 +537,19 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                           }}
                           placeholder="MainBoard"
                         />
+                        {fieldError(`links.${idx}.module`)}
                       </div>
 
                       {/* Descrição abaixo do módulo, como textarea */}
                       <div>
                         <label className="text-xs block mb-1">Descrição</label>
                         <textarea
-                          className={commonInput}
+                          className={inputClass(`links.${idx}.description`)}
                           rows={3}
                           value={l.description}
                           onChange={(e) => {
                             const description = e.target.value;
+                            clearFieldError(`links.${idx}.description`);
                             setValue((v) => {
                               const links = [...v.links];
                               links[idx] = { ...links[idx], description };
@@ -518,6 +558,7 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                           }}
                           placeholder="Firmware principal"
                         />
+                        {fieldError(`links.${idx}.description`)}
                       </div>
 
                       {/* Arquivo com botão azul + label do nome */}
@@ -532,23 +573,29 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                           <input
                             id={`fw-file-${idx}`}
                             type="file"
-                            className="hidden fw-input"
-                            data-idx={idx}
+                            accept={FIRMWARE_EXTENSIONS.join(",")}
+                            className="hidden"
                             onChange={(e) => {
-                              const file = e.target.files?.[0];
+                              const picked = e.target.files?.[0] ?? null;
+                              // permite escolher o mesmo arquivo de novo
+                              e.target.value = "";
+                              const error = picked
+                                ? validateFirmwareFile(picked)
+                                : null;
+                              if (error)
+                                setFieldError(`links.${idx}.file`, error);
+                              else clearFieldError(`links.${idx}.file`);
+                              const file = error ? null : picked;
                               setValue((v) => {
                                 const links = [...v.links];
-                                links[idx] = {
-                                  ...links[idx],
-                                  filename: file?.name || "",
-                                };
+                                links[idx] = { ...links[idx], file };
                                 return { ...v, links };
                               });
                             }}
                           />
-                          {l.filename ? (
+                          {l.file ? (
                             <span className="text-sm text-gray-700 dark:text-gray-300 truncate max-w-[220px]">
-                              {l.filename}
+                              {l.file.name} ({formatBytes(l.file.size)})
                             </span>
                           ) : (
                             <span className="text-sm text-gray-500 dark:text-gray-400 italic">
@@ -556,6 +603,7 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                             </span>
                           )}
                         </div>
+                        {fieldError(`links.${idx}.file`)}
                       </div>
 
                       <div className="text-right">
@@ -610,10 +658,11 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                         <div className="col-span-2">
                           <label className="text-xs block mb-1">Módulo</label>
                           <input
-                            className={commonInput}
+                            className={inputClass(`links.${idx}.module`)}
                             value={l.module}
                             onChange={(e) => {
                               const module = e.target.value;
+                              clearFieldError(`links.${idx}.module`);
                               setValue((v) => {
                                 const links = [...v.links];
                                 links[idx] = { ...links[idx], module };
@@ -622,14 +671,16 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                             }}
                             placeholder="MainBoard"
                           />
+                          {fieldError(`links.${idx}.module`)}
                         </div>
                         <div className="col-span-2">
                           <label className="text-xs block mb-1">URL</label>
                           <input
-                            className={commonInput}
+                            className={inputClass(`links.${idx}.url`)}
                             value={l.url}
                             onChange={(e) => {
                               const url = e.target.value;
+                              clearFieldError(`links.${idx}.url`);
                               setValue((v) => {
                                 const links = [...v.links];
                                 links[idx] = { ...links[idx], url };
@@ -638,17 +689,19 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                             }}
                             placeholder="https://cdn.exemplo.com/fw/mainboard-1.8.0.bin"
                           />
+                          {fieldError(`links.${idx}.url`)}
                         </div>
                       </div>
 
                       <div>
                         <label className="text-xs block mb-1">Descrição</label>
                         <textarea
-                          className={commonInput}
+                          className={inputClass(`links.${idx}.description`)}
                           rows={3}
                           value={l.description}
                           onChange={(e) => {
                             const description = e.target.value;
+                            clearFieldError(`links.${idx}.description`);
                             setValue((v) => {
                               const links = [...v.links];
                               links[idx] = { ...links[idx], description };
@@ -657,6 +710,7 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
                           }}
                           placeholder="Descrição"
                         />
+                        {fieldError(`links.${idx}.description`)}
                       </div>
 
                       <div className="text-right">
@@ -677,6 +731,15 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
         </>
       )}
 
+      {upload.progress && (
+        <div className="mt-6">
+          <UploadProgressPanel
+            progress={upload.progress}
+            onCancel={upload.cancel}
+          />
+        </div>
+      )}
+
       {/* Ações */}
       <div className="mt-6 flex justify-end gap-2">
         <button
@@ -689,7 +752,7 @@ const CreateReleaseForm = memo(function CreateReleaseForm({
         </button>
         <button
           type="submit"
-          disabled={saving || !canSubmit}
+          disabled={saving || !canSubmit || !online}
           className="w-24 px-3 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 text-sm"
         >
           {saving ? "Salvando..." : "Salvar"}
@@ -719,12 +782,38 @@ export default function CreateReleasePage() {
 
   const [fwMode, setFwMode] = useState<FwMode>("upload");
   const [fwDirName, setFwDirName] = useState(""); // parte após a categoria
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const upload = useUpload();
+  const [pending, setPending] = useState(pendingUploads);
 
-  const RETURN_TO = "/dashboard";
+  const discardPending = (uploadId: string) => {
+    discardUpload(uploadId);
+    setPending(pendingUploads());
+  };
+
+  const setFieldError = useCallback(
+    (path: string, message: string) =>
+      setFieldErrors((prev) => ({ ...prev, [path]: message })),
+    []
+  );
+
+  const clearFieldError = useCallback(
+    (path: string) =>
+      setFieldErrors((prev) => {
+        if (!(path in prev)) return prev;
+        const next = { ...prev };
+        delete next[path];
+        return next;
+      }),
+    []
+  );
+
+  const RETURN_TO = "/dashboard/firmwares";
   const goToList = () => navigate(RETURN_TO, { replace: true });
 
   const handleSubmit = async () => {
     setSaving(true);
+    setFieldErrors({});
     try {
       const isUrl = (u: string) => /^https?:\/\/\S+/i.test(u);
 
@@ -748,7 +837,7 @@ export default function CreateReleasePage() {
         previousVersion: form.previousVersion.trim(),
         ota: !!form.ota,
         otaObs: form.otaObs?.trim() || "",
-        releaseDate: toApiDate(form.releaseDate)!, // ISO
+        releaseDate: form.releaseDate, // releasesApi converte para ISO
         importantNote: form.importantNote?.trim() || "",
         productCategory: form.productCategory.trim(),
         productName: form.productName.trim(),
@@ -780,27 +869,19 @@ export default function CreateReleasePage() {
       const dir = `${cat}/${dirName}`;
 
       if (fwMode === "upload") {
-        // pegar todos inputs de arquivo da página
-        const fileEls = Array.from(
-          document.querySelectorAll<HTMLInputElement>("input.fw-input")
+        const uploads: FirmwareUpload[] = form.links.flatMap((l) =>
+          l.file
+            ? [
+                {
+                  file: l.file,
+                  module: (l.module || "").trim() || "default",
+                  description: (l.description || "").trim() || "Firmware",
+                },
+              ]
+            : []
         );
 
-        const files: File[] = [];
-        const modules: string[] = [];
-        const descriptions: string[] = [];
-
-        fileEls.forEach((el) => {
-          const idx = Number(el.dataset.idx);
-          const file = el.files?.[0];
-          if (file) {
-            files.push(file);
-            const l = form.links[idx] || { module: "", description: "" };
-            modules.push((l.module || "").trim() || "default");
-            descriptions.push((l.description || "").trim() || "Firmware");
-          }
-        });
-
-        if (files.length === 0) {
+        if (uploads.length === 0) {
           toast.error("Selecione ao menos um arquivo para upload.");
           setSaving(false);
           return;
@@ -812,16 +893,18 @@ export default function CreateReleasePage() {
           return;
         }
 
-        const fd = new FormData();
-        fd.append("data", JSON.stringify(payload));
-        fd.append("dir", dir);
-        files.forEach((f) => fd.append("files[]", f));
-        modules.forEach((m) => fd.append("linkModule[]", m));
-        descriptions.forEach((d) => fd.append("linkDescription[]", d));
+        const invalid = uploads
+          .map((u) => validateFirmwareFile(u.file))
+          .find(Boolean);
+        if (invalid) {
+          toast.error(invalid);
+          setSaving(false);
+          return;
+        }
 
-        await api.post("/releases", fd, {
-          headers: { "Content-Type": "multipart/form-data" },
-        });
+        await upload.run((opts) =>
+          releasesApi.createWithFiles(payload, uploads, dir, opts)
+        );
       } else {
         if (payload.links.length === 0) {
           toast.error("Informe ao menos um link de firmware.");
@@ -837,9 +920,10 @@ export default function CreateReleasePage() {
             return;
           }
         }
-        await api.post("/releases", payload);
+        await releasesApi.create(payload);
       }
 
+      releasesCache.invalidateList();
       toast.success("Release criada com sucesso.");
       setForm({
         version: "",
@@ -858,23 +942,29 @@ export default function CreateReleasePage() {
       setFwMode("upload");
       setFwDirName("");
       goToList();
-    } catch (err: any) {
-      console.error(
-        "POST /releases error:",
-        err?.response?.status,
-        err?.response?.data
-      );
+    } catch (err) {
+      console.error("POST /releases error:", err);
+      if (isApiError(err) && err.kind === "cancelada") {
+        toast.info("Envio cancelado. Nenhuma release foi criada.");
+        return;
+      }
+      setFieldErrors(isApiError(err) ? err.fields : {});
       toast.error(
-        err?.response?.data?.message ||
+        errorMessage(
+          err,
           "Falha ao salvar release. Verifique os campos e permissões."
+        )
       );
     } finally {
       setSaving(false);
+      // envios em partes interrompidos ficam guardados para retomada
+      setPending(pendingUploads());
     }
   };
 
   return (
     <div className="px-4 py-6 max-w-5xl mx-auto">
+      <PendingUploadsNotice uploads={pending} onDiscard={discardPending} />
       <CreateReleaseForm
         value={form}
         setValue={setForm}
@@ -885,6 +975,10 @@ export default function CreateReleasePage() {
         setFwMode={setFwMode}
         fwDirName={fwDirName}
         setFwDirName={setFwDirName}
+        fieldErrors={fieldErrors}
+        clearFieldError={clearFieldError}
+        setFieldError={setFieldError}
+        upload={upload}
       />
     </div>
   );
@@ -1,134 +1,249 @@
-import { KeySquareIcon, Loader, Lock, Mail, User } from "lucide-react"
+import { KeySquareIcon, Loader, Lock, Mail, User } from "lucide-react";
 
-import api from "../services/api";
+import { usersApi } from "../services/usersApi";
+import { errorMessage, fieldErrorsOf } from "../services/apiError";
 import { useState } from "react";
+import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
+import {
+  formatCpf,
+  isValidCpf,
+  isValidEmail,
+  onlyDigits,
+} from "../utils/validators";
 
+type Field = "nome" | "email" | "cpf";
 
+function validate(data: Record<Field, string>): Partial<Record<Field, string>> {
+  const errors: Partial<Record<Field, string>> = {};
+  if (!data.nome.trim()) errors.nome = "Informe seu nome.";
+  if (!data.email.trim()) errors.email = "Informe seu e-mail.";
+  else if (!isValidEmail(data.email)) errors.email = "E-mail inválido.";
+  if (!onlyDigits(data.cpf)) errors.cpf = "Informe seu CPF.";
+  else if (!isValidCpf(data.cpf)) errors.cpf = "CPF inválido.";
+  return errors;
+}
 
-
-export default function RequestKey(){
+export default function RequestKey() {
   const [email, setEmail] = useState("");
   const [cpf, setCpf] = useState("");
   const [name, setName] = useState("");
   const [loading, setLoading] = useState(false);
-  //const navigate = useNavigate();
-  
-  const handleCreateLicense = async(data: {
-    cpf: string
-    email: string
-    nome: string
+  const [touched, setTouched] = useState<Partial<Record<Field, boolean>>>({});
+  // erros do backend valem até o campo ser editado
+  const [serverErrors, setServerErrors] = useState<
+    Partial<Record<Field, string>>
+  >({});
+  const navigate = useNavigate();
+
+  const errors = validate({ nome: name, email, cpf });
+  const errorOf = (field: Field) =>
+    (touched[field] ? errors[field] : undefined) ?? serverErrors[field];
+  const edit = (field: Field, set: (v: string) => void) => (v: string) => {
+    set(v);
+    setServerErrors((e) => ({ ...e, [field]: undefined }));
+  };
+  const touch = (field: Field) => () =>
+    setTouched((t) => ({ ...t, [field]: true }));
+
+  const fieldClass = (field: Field) =>
+    `flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800 ${
+      errorOf(field) ? "border-rose-400" : "border-green-300"
+    }`;
+
+  const handleCreateLicense = async (data: {
+    cpf: string;
+    email: string;
+    nome: string;
   }) => {
-    if (!data.cpf || !data.email || !data.nome) {
-      toast.error('Por favor, preencha todos os campos.')
-      return
+    setTouched({ nome: true, email: true, cpf: true });
+    if (Object.keys(errors).length > 0) {
+      toast.error("Corrija os campos destacados.");
+      return;
     }
     try {
-      setLoading(true)
-      await api.post('/criar-chave', data)
-      console.log('Nova chave:', data)
+      setLoading(true);
+      await usersApi.requestKey({
+        nome: data.nome.trim(),
+        email: data.email.trim(),
+        cpf: onlyDigits(data.cpf),
+      });
       toast.success(
-        'Chave de acesso criada com sucesso! Verifique na sua caixa de email.',
+        "Chave de acesso criada com sucesso! Verifique na sua caixa de email.",
         {
           duration: Infinity,
           action: {
-            label: 'Fechar',
+            label: "Fechar",
             onClick: () => {
-              toast.dismiss(); 
-            }
-          }
+              toast.dismiss();
+            },
+          },
         }
       );
     } catch (error) {
-      toast.error('Erro ao criar chave de acesso. Tente novamente.')
-      console.error('Erro ao criar chave de acesso:', error)
-    }finally {
-      setLoading(false)
-      
+      setServerErrors(fieldErrorsOf<Field>(error));
+      toast.error(
+        errorMessage(error, "Erro ao criar chave de acesso. Tente novamente.")
+      );
+      console.error("Erro ao criar chave de acesso:", error);
+    } finally {
+      setLoading(false);
     }
-   
-  }
+  };
+
+  const fieldError = (field: Field) =>
+    errorOf(field) ? (
+      <p
+        id={`request-${field}-error`}
+        className="w-full text-xs text-rose-600 -mt-3"
+      >
+        {errorOf(field)}
+      </p>
+    ) : null;
 
   return (
     <div className="flex items-center justify-center h-screen bg-white text-black dark:bg-zinc-900 dark:text-white">
-    <div className=" flex flex-col  justify-center items-center transition-colors duration-300 bg-white text-black dark:bg-zinc-800 dark:text-white border-2 min-w-96 w-96 p-8  border-green-300 rounded-2xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700" >
-      <KeySquareIcon size={64} className="mb-4" />
-      <h1 className="text-4xl font-bold">
-        License
-      </h1>
-      <h2 className="mt-8 text-2xl">Bem vindo!</h2>
-      <span className="text-center mt-2">Faça sua solicitação da chave para criação da sua conta no <span className="font-bold">Intelbras CVE</span>.</span>
-      <form
-        onSubmit={(e) => {
-          e.preventDefault();
-          handleCreateLicense({ cpf, email,nome:name });
-        }}
-        className="flex flex-col justify-center items-center gap-4 mt-8 w-full max-w-md"
-      >
+      <div className=" flex flex-col  justify-center items-center transition-colors duration-300 bg-white text-black dark:bg-zinc-800 dark:text-white border-2 min-w-96 w-96 p-8  border-green-300 rounded-2xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700">
+        <KeySquareIcon size={64} className="mb-4" />
+        <h1 className="text-4xl font-bold">License</h1>
+        <h2 className="mt-8 text-2xl">Bem vindo!</h2>
+        <span className="text-center mt-2">
+          Faça sua solicitação da chave para criação da sua conta no{" "}
+          <span className="font-bold">Intelbras CVE</span>.
+        </span>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCreateLicense({ cpf, email, nome: name });
+          }}
+          className="flex flex-col justify-center items-center gap-4 mt-8 w-full max-w-md"
+          noValidate
+        >
+          <label className={fieldClass("nome")}>
+            <User className="w-5 h-5 text-green-500" />
+            <div className="flex flex-row items-center gap-2 w-full">
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                Nome:
+              </span>
+              <input
+                type="text"
+                name="name"
+                className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
+                value={name}
+                onChange={(e) => edit("nome", setName)(e.target.value)}
+                onBlur={touch("nome")}
+                placeholder="Digite seu nome"
+                autoComplete="name"
+                aria-invalid={!!errorOf("nome")}
+                aria-describedby="request-nome-error"
+                required
+              />
+            </div>
+          </label>
+          {fieldError("nome")}
 
-         <label className="flex items-center gap-2 border-2 border-green-300 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800">
-          <User className="w-5 h-5 text-green-500" />
-          <div className="flex flex-row items-center gap-2 w-full">
-            <span className="text-sm text-gray-600 dark:text-gray-300">Nome:</span>
-            <input
-              type="text"
-              name="name"
-              className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
-              value={name}
-              onChange={(e) => setName(e.target.value)}
-              placeholder="Digite seu nome"
-              required
-            />
-          </div>
-        </label>
+          <label className={fieldClass("email")}>
+            <Mail className="w-5 h-5 text-green-500" />
+            <div className="flex flex-row items-center gap-2 w-full">
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                Email:
+              </span>
+              <input
+                type="email"
+                name="email"
+                className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
+                value={email}
+                onChange={(e) => edit("email", setEmail)(e.target.value)}
+                onBlur={touch("email")}
+                placeholder="Digite seu e-mail"
+                autoComplete="email"
+                aria-invalid={!!errorOf("email")}
+                aria-describedby="request-email-error"
+                required
+              />
+            </div>
+          </label>
+          {fieldError("email")}
 
-        <label className="flex items-center gap-2 border-2 border-green-300 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800">
-          <Mail className="w-5 h-5 text-green-500" />
-          <div className="flex flex-row items-center gap-2 w-full">
-            <span className="text-sm text-gray-600 dark:text-gray-300">Email:</span>
-            <input
-              type="email"
-              name="email"
-              className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="Digite seu e-mail"
-              required
-            />
-          </div>
-        </label>
+          <label className={fieldClass("cpf")}>
+            <Lock className="w-5 h-5 text-green-500" />
+            <div className="flex flex-row items-center gap-2 w-full">
+              <span className="text-sm text-gray-600 dark:text-gray-300">
+                CPF:
+              </span>
+              <input
+                type="text"
+                name="cpf"
+                inputMode="numeric"
+                className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
+                value={cpf}
+                onChange={(e) => edit("cpf", setCpf)(formatCpf(e.target.value))}
+                onBlur={touch("cpf")}
+                maxLength={14}
+                placeholder="000.000.000-00"
+                aria-invalid={!!errorOf("cpf")}
+                aria-describedby="request-cpf-error"
+                required
+              />
+            </div>
+          </label>
+          {fieldError("cpf")}
 
-        <label className="flex items-center gap-2 border-2 border-green-300 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800">
-          <Lock className="w-5 h-5 text-green-500" />
-          <div className="flex flex-row items-center gap-2 w-full">
-            <span className="text-sm text-gray-600 dark:text-gray-300">CPF:</span>
-            <input
-              type="text"
-              name="cpf"
-              className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
-              value={cpf}
-              onChange={(e) => setCpf(e.target.value.replace(/\D/g, ""))}
-              maxLength={11} // opcional, limite de 11 dígitos
-              placeholder="Digite seu CPF"
-              required
-            />
-          </div>
-        </label>
-        <span className="text-center mt-4 text-sm text-gray-500 dark:text-gray-400">
-          Ao solicitar a chave, você concorda com os <a href="https://www.intelbras.com/pt-br/politica-de-privacidade/termos" target="_blank" rel="noopener noreferrer" className="text-sky-500 hover:underline">Termos de Uso</a> e a <a href="https://www.intelbras.com/pt-br/politica-de-privacidade/politica" target="_blank" rel="noopener noreferrer" className="text-sky-500 hover:underline">Política de Privacidade</a>.
-        </span>
+          <span className="text-center mt-4 text-sm text-gray-500 dark:text-gray-400">
+            Ao solicitar a chave, você concorda com os{" "}
+            <a
+              href="https://www.intelbras.com/pt-br/politica-de-privacidade/termos"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sky-500 hover:underline"
+            >
+              Termos de Uso
+            </a>{" "}
+            e a{" "}
+            <a
+              href="https://www.intelbras.com/pt-br/politica-de-privacidade/politica"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sky-500 hover:underline"
+            >
+              Política de Privacidade
+            </a>
+            .
+          </span>
 
-        <button 
-          disabled={loading}
-          className="flex items-center justify-center bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer">
-            {loading ? <Loader className="animate-spin w-5 h-5" /> : 'Solicitar Chave'}
-        </button>
-      </form>
+          <button
+            disabled={loading}
+            className="flex items-center justify-center bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer"
+          >
+            {loading ? (
+              <Loader className="animate-spin w-5 h-5" />
+            ) : (
+              "Solicitar Chave"
+            )}
+          </button>
+        </form>
 
-      
-     
-    </div>
-    
+        <span className="text-center mt-4 text-sm">
+          Já recebeu sua chave?{" "}
+          <button
+            type="button"
+            onClick={() => navigate("/cadastro")}
+            className="text-green-500 underline hover:text-green-600 transition-colors"
+          >
+            Crie sua conta
+          </button>
+        </span>
+        <span className="text-center mt-1 text-sm">
+          Já solicitou?{" "}
+          <button
+            type="button"
+            onClick={() => navigate("/acompanhar-solicitacao")}
+            className="text-green-500 underline hover:text-green-600 transition-colors"
+          >
+            Acompanhe sua solicitação
+          </button>
+        </span>
+      </div>
     </div>
-  )
-}
\ No newline at end of file
+  );
+}
@@ -0,0 +1,253 @@
+import {
+  CircleCheck,
+  CircleX,
+  Clock,
+  KeySquareIcon,
+  Loader,
+  Lock,
+  Mail,
+  SearchX,
+} from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useState } from "react";
+import { toast } from "sonner";
+import type {
+  KeyRequestStatus,
+  KeyRequestStatusResponse,
+} from "../services/models";
+import { usersApi } from "../services/usersApi";
+import { errorMessage, statusOf } from "../services/apiError";
+import {
+  formatCpf,
+  isValidCpf,
+  isValidEmail,
+  onlyDigits,
+} from "../utils/validators";
+
+type Result = KeyRequestStatusResponse | "nao-encontrada";
+
+const statusView: Record<
+  KeyRequestStatus,
+  { icon: React.ReactNode; title: string; text: string }
+> = {
+  emitida: {
+    icon: <CircleCheck className="w-10 h-10 text-green-500" />,
+    title: "Chave emitida",
+    text: "Sua chave de acesso foi enviada por e-mail. Use-a para criar sua conta.",
+  },
+  pendente: {
+    icon: <Clock className="w-10 h-10 text-amber-500" />,
+    title: "Solicitação pendente",
+    text: "Sua solicitação está em análise pela equipe de CVE.",
+  },
+  recusada: {
+    icon: <CircleX className="w-10 h-10 text-rose-500" />,
+    title: "Solicitação recusada",
+    text: "Sua solicitação não foi aprovada.",
+  },
+};
+
+function fmtDate(iso?: string | null) {
+  if (!iso) return null;
+  const d = new Date(iso);
+  return isNaN(d.getTime()) ? null : d.toLocaleString("pt-BR");
+}
+
+export default function RequestStatusPage() {
+  const navigate = useNavigate();
+  const [email, setEmail] = useState("");
+  const [cpf, setCpf] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [result, setResult] = useState<Result | null>(null);
+
+  const emailError = !email.trim()
+    ? "Informe o e-mail usado na solicitação."
+    : !isValidEmail(email)
+      ? "E-mail inválido."
+      : null;
+  const cpfError = !onlyDigits(cpf)
+    ? "Informe seu CPF."
+    : !isValidCpf(cpf)
+      ? "CPF inválido."
+      : null;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (loading) return;
+    setSubmitted(true);
+    if (emailError || cpfError) return;
+
+    setLoading(true);
+    try {
+      setResult(await usersApi.keyRequestStatus(email.trim(), onlyDigits(cpf)));
+    } catch (err) {
+      console.error("POST /criar-chave/status error:", err);
+      if (statusOf(err) === 404) setResult("nao-encontrada");
+      else
+        toast.error(
+          errorMessage(err, "Não foi possível consultar a solicitação.")
+        );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const reset = () => {
+    setResult(null);
+    setSubmitted(false);
+  };
+
+  const fieldClass = (error: string | null) =>
+    `flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-green-50 dark:focus-within:bg-zinc-800 ${
+      submitted && error ? "border-rose-400" : "border-green-300"
+    }`;
+
+  const view =
+    result && result !== "nao-encontrada" ? statusView[result.status] : null;
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-white text-black dark:bg-zinc-900 dark:text-white">
+      <div className="flex flex-col justify-center items-center transition-colors duration-300 bg-white text-black dark:bg-zinc-800 dark:text-white border-2 min-w-96 w-96 p-8 border-green-300 rounded-2xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700">
+        <KeySquareIcon size={64} className="mb-4" />
+        <h1 className="text-4xl font-bold">License</h1>
+        <h2 className="mt-8 text-2xl">Acompanhar solicitação</h2>
+
+        {result ? (
+          <div className="flex flex-col items-center gap-4 mt-6 w-full text-center">
+            {result === "nao-encontrada" || !view ? (
+              <>
+                <SearchX className="w-10 h-10 text-gray-400" />
+                <p className="text-sm">
+                  Nenhuma solicitação encontrada para este CPF e e-mail.
+                </p>
+              </>
+            ) : (
+              <>
+                {view.icon}
+                <p className="font-semibold">{view.title}</p>
+                <p className="text-sm">{view.text}</p>
+                {result.status === "recusada" && result.motivo && (
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    Motivo: {result.motivo}
+                  </p>
+                )}
+                {fmtDate(result.atualizadoEm) && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Atualizado em {fmtDate(result.atualizadoEm)}
+                  </p>
+                )}
+              </>
+            )}
+
+            {result !== "nao-encontrada" && result.status === "emitida" ? (
+              <button
+                type="button"
+                onClick={() => navigate("/cadastro")}
+                className="bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer"
+              >
+                Criar minha conta
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => navigate("/solicitar-chave")}
+                className="bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer"
+              >
+                Nova solicitação
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={reset}
+              className="text-sm text-green-500 underline hover:text-green-600 transition-colors"
+            >
+              Consultar outra solicitação
+            </button>
+          </div>
+        ) : (
+          <>
+            <span className="text-center font-light mt-2">
+              Informe o CPF e o e-mail usados ao solicitar a chave de acesso.
+            </span>
+
+            <form
+              onSubmit={handleSubmit}
+              className="flex flex-col justify-center items-center gap-4 mt-8 w-full max-w-md"
+              noValidate
+            >
+              <label className={fieldClass(emailError)}>
+                <Mail className="w-5 h-5 text-green-500" />
+                <div className="flex flex-row items-center gap-2 w-full">
+                  <span className="text-sm text-gray-600 dark:text-gray-300">
+                    Email:
+                  </span>
+                  <input
+                    type="email"
+                    name="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
+                    placeholder="Digite seu e-mail"
+                    autoComplete="email"
+                    aria-invalid={submitted && !!emailError}
+                    required
+                  />
+                </div>
+              </label>
+              {submitted && emailError && (
+                <p className="w-full text-xs text-rose-600 -mt-3">
+                  {emailError}
+                </p>
+              )}
+
+              <label className={fieldClass(cpfError)}>
+                <Lock className="w-5 h-5 text-green-500" />
+                <div className="flex flex-row items-center gap-2 w-full">
+                  <span className="text-sm text-gray-600 dark:text-gray-300">
+                    CPF:
+                  </span>
+                  <input
+                    type="text"
+                    name="cpf"
+                    inputMode="numeric"
+                    value={cpf}
+                    onChange={(e) => setCpf(formatCpf(e.target.value))}
+                    maxLength={14}
+                    className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
+                    placeholder="000.000.000-00"
+                    aria-invalid={submitted && !!cpfError}
+                    required
+                  />
+                </div>
+              </label>
+              {submitted && cpfError && (
+                <p className="w-full text-xs text-rose-600 -mt-3">{cpfError}</p>
+              )}
+
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex items-center justify-center bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer disabled:opacity-60"
+              >
+                {loading ? (
+                  <Loader className="animate-spin w-5 h-5" />
+                ) : (
+                  "Consultar"
+                )}
+              </button>
+            </form>
+
+            <button
+              type="button"
+              onClick={() => navigate("/solicitar-chave")}
+              className="mt-4 text-sm text-green-500 underline hover:text-green-600 transition-colors"
+            >
+              Voltar para a solicitação de chave
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
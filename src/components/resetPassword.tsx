@@ -0,0 +1,307 @@
+import {
+  ClipboardList,
+  Eye,
+  EyeOff,
+  Loader,
+  Lock,
+  RotateCw,
+  TriangleAlert,
+} from "lucide-react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { authApi } from "../services/authApi";
+import { errorMessage, fieldErrorsOf, statusOf } from "../services/apiError";
+import {
+  MIN_PASSWORD_LENGTH,
+  passwordsMismatch,
+  validatePassword,
+} from "../utils/password";
+
+type TokenState =
+  "validando" | "valido" | "expirado" | "utilizado" | "invalido" | "erro";
+
+// 410 → expirado, 409 → já utilizado, 404/400 → inválido. Falhas de rede e do
+// servidor não dizem nada sobre o link: viram "erro", com opção de repetir.
+function tokenStateFromError(err: unknown): TokenState {
+  const status = statusOf(err);
+  if (status === 410) return "expirado";
+  if (status === 409) return "utilizado";
+  if (status === 404 || status === 400) return "invalido";
+  return "erro";
+}
+
+const invalidMessages: Record<
+  Exclude<TokenState, "validando" | "valido" | "erro">,
+  string
+> = {
+  expirado: "Este link de redefinição expirou.",
+  utilizado: "Este link de redefinição já foi utilizado.",
+  invalido: "Este link de redefinição é inválido.",
+};
+
+export default function ResetPassword() {
+  const { token = "" } = useParams();
+  const navigate = useNavigate();
+  const [tokenState, setTokenState] = useState<TokenState>("validando");
+  const [checkError, setCheckError] = useState("");
+  const [checkAttempt, setCheckAttempt] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [showPwd, setShowPwd] = useState(false);
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [form, setForm] = useState({ password: "", confirmPassword: "" });
+  const [passwordError, setPasswordError] = useState<string | undefined>();
+
+  useEffect(() => {
+    let cancelled = false;
+    setTokenState("validando");
+    authApi
+      .checkResetToken(token)
+      .then(() => {
+        if (!cancelled) setTokenState("valido");
+      })
+      .catch((err) => {
+        console.error("GET /auth/reset-password error:", err);
+        if (cancelled) return;
+        setTokenState(tokenStateFromError(err));
+        setCheckError(
+          errorMessage(err, "Não foi possível validar o link agora.")
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, checkAttempt]);
+
+  const update =
+    (key: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) => {
+      setForm((f) => ({ ...f, [key]: e.target.value }));
+      setPasswordError(undefined);
+    };
+
+  const mismatch = passwordsMismatch(form.password, form.confirmPassword);
+  const invalid = mismatch || !!passwordError;
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (loading) return;
+
+    const pwdError = validatePassword(form.password, form.confirmPassword);
+    if (pwdError) {
+      toast.error(pwdError);
+      return;
+    }
+
+    setLoading(true);
+    setPasswordError(undefined);
+    try {
+      await authApi.resetPassword(token, form.password);
+      toast.success("Senha redefinida. Faça login com a nova senha.", {
+        closeButton: true,
+      });
+      navigate("/login", { replace: true });
+    } catch (err) {
+      console.error("POST /auth/reset-password error:", err);
+      const status = statusOf(err);
+      if (status === 404 || status === 409 || status === 410) {
+        // token expirou ou foi usado entre a validação e o envio
+        setTokenState(tokenStateFromError(err));
+      } else if (status === 400) {
+        setPasswordError(
+          fieldErrorsOf<"password">(err).password ??
+            "A nova senha não atende aos requisitos."
+        );
+      } else {
+        toast.error(
+          errorMessage(err, "Falha ao redefinir a senha. Tente novamente.")
+        );
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleForgot = () => navigate("/esqueci-senha");
+  const handleLogin = () => navigate("/login");
+
+  return (
+    <div className="flex items-center justify-center h-screen bg-white text-black dark:bg-zinc-900 dark:text-white">
+      <div className="flex flex-col justify-center items-center transition-colors duration-300 bg-white text-black dark:bg-zinc-800 dark:text-white border-2 min-w-96 w-96 p-8 border-green-300 rounded-2xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700">
+        <ClipboardList size={64} className="mb-4" />
+        <h1 className="text-4xl font-bold">ChangeLog</h1>
+        <h2 className="mt-8 text-2xl">Redefinir senha</h2>
+
+        {tokenState === "validando" && (
+          <div className="flex items-center gap-2 mt-8 text-sm text-gray-500 dark:text-gray-400">
+            <Loader className="animate-spin w-5 h-5" />
+            Validando link...
+          </div>
+        )}
+
+        {tokenState === "erro" && (
+          <div className="flex flex-col items-center gap-4 mt-6 w-full text-center">
+            <TriangleAlert className="w-10 h-10 text-amber-500" />
+            <p className="text-sm">{checkError}</p>
+            <button
+              type="button"
+              onClick={() => setCheckAttempt((n) => n + 1)}
+              className="flex items-center justify-center gap-2 bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer"
+            >
+              <RotateCw className="w-4 h-4" />
+              Tentar novamente
+            </button>
+            <button
+              type="button"
+              onClick={handleLogin}
+              className="text-sm text-green-500 underline hover:text-green-600 transition-colors"
+            >
+              Voltar para o login
+            </button>
+          </div>
+        )}
+
+        {(tokenState === "expirado" ||
+          tokenState === "utilizado" ||
+          tokenState === "invalido") && (
+          <div className="flex flex-col items-center gap-4 mt-6 w-full text-center">
+            <TriangleAlert className="w-10 h-10 text-rose-500" />
+            <p className="text-sm">{invalidMessages[tokenState]}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Solicite um novo link para criar sua senha.
+            </p>
+            <button
+              type="button"
+              onClick={handleForgot}
+              className="bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer"
+            >
+              Solicitar novo link
+            </button>
+            <button
+              type="button"
+              onClick={handleLogin}
+              className="text-sm text-green-500 underline hover:text-green-600 transition-colors"
+            >
+              Voltar para o login
+            </button>
+          </div>
+        )}
+
+        {tokenState === "valido" && (
+          <form
+            onSubmit={handleSubmit}
+            className="flex flex-col justify-center items-center gap-4 mt-8 w-full max-w-md"
+            noValidate
+          >
+            {/* Nova senha */}
+            <label
+              className={`flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-green-50 dark:focus-within:bg-zinc-800 ${
+                invalid ? "border-rose-400" : "border-green-300"
+              }`}
+            >
+              <Lock className="w-5 h-5 text-green-500" />
+              <div className="flex flex-row items-center gap-2 w-full">
+                <span className="text-sm text-gray-600 dark:text-gray-300">
+                  Senha:
+                </span>
+                <div className="relative w-full flex items-center">
+                  <input
+                    type={showPwd ? "text" : "password"}
+                    name="password"
+                    value={form.password}
+                    onChange={update("password")}
+                    className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full pr-8"
+                    placeholder="Nova senha"
+                    autoComplete="new-password"
+                    minLength={MIN_PASSWORD_LENGTH}
+                    required
+                    aria-invalid={invalid}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPwd((s) => !s)}
+                    aria-label={showPwd ? "Ocultar senha" : "Mostrar senha"}
+                    aria-pressed={showPwd}
+                    className="absolute right-0 p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  >
+                    {showPwd ? (
+                      <EyeOff className="w-5 h-5" />
+                    ) : (
+                      <Eye className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+              </div>
+            </label>
+
+            {/* Confirmar */}
+            <label
+              className={`flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-green-50 dark:focus-within:bg-zinc-800 ${
+                invalid ? "border-rose-400" : "border-green-300"
+              }`}
+            >
+              <Lock className="w-5 h-5 text-green-500" />
+              <div className="flex flex-row items-center gap-2 w-full">
+                <span className="text-sm text-gray-600 dark:text-gray-300">
+                  Confirmar:
+                </span>
+                <div className="relative w-full flex items-center">
+                  <input
+                    type={showConfirm ? "text" : "password"}
+                    name="confirmPassword"
+                    value={form.confirmPassword}
+                    onChange={update("confirmPassword")}
+                    className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full pr-8"
+                    placeholder="Repita a nova senha"
+                    autoComplete="new-password"
+                    minLength={MIN_PASSWORD_LENGTH}
+                    required
+                    aria-invalid={invalid}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowConfirm((s) => !s)}
+                    aria-label={
+                      showConfirm
+                        ? "Ocultar confirmação"
+                        : "Mostrar confirmação"
+                    }
+                    aria-pressed={showConfirm}
+                    className="absolute right-0 p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+                  >
+                    {showConfirm ? (
+                      <EyeOff className="w-5 h-5" />
+                    ) : (
+                      <Eye className="w-5 h-5" />
+                    )}
+                  </button>
+                </div>
+              </div>
+            </label>
+
+            {invalid && (
+              <p className="w-full text-xs text-rose-600 -mt-2">
+                {mismatch ? "As senhas não coincidem." : passwordError}
+              </p>
+            )}
+
+            <p className="w-full text-xs text-gray-500 dark:text-gray-400 -mt-2">
+              Mínimo de {MIN_PASSWORD_LENGTH} caracteres.
+            </p>
+
+            <button
+              type="submit"
+              disabled={loading || mismatch}
+              className="flex items-center justify-center bg-green-500 text-white p-2 rounded-md w-full hover:bg-green-600 transition cursor-pointer disabled:opacity-60"
+            >
+              {loading ? (
+                <Loader className="animate-spin w-5 h-5" />
+              ) : (
+                "Redefinir senha"
+              )}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from "react";
+import { createPortal } from "react-dom";
+import { Clock } from "lucide-react";
+
+type SessionExpiryModalProps = {
+  open: boolean;
+  secondsLeft: number;
+  extending: boolean;
+  onExtend: () => void;
+  onLogout: () => void;
+};
+
+function fmtCountdown(total: number) {
+  const m = Math.floor(total / 60);
+  const s = total % 60;
+  return `${m}:${String(s).padStart(2, "0")}`;
+}
+
+function SessionExpiryModal({
+  open,
+  secondsLeft,
+  extending,
+  onExtend,
+  onLogout,
+}: SessionExpiryModalProps) {
+  if (!open) return null;
+  return (
+    <div
+      className="fixed inset-0 z-[120] flex items-center justify-center"
+      aria-modal="true"
+      role="alertdialog"
+      aria-labelledby="session-expiry-title"
+    >
+      <div className="absolute inset-0 bg-black/40" />
+      <div className="relative w-full max-w-md rounded-xl border border-gray-200 bg-white dark:bg-white text-gray-900 dark:text-gray-900 p-5 shadow-2xl">
+        <div className="flex items-center gap-2 mb-1">
+          <Clock className="w-5 h-5 text-amber-500" />
+          <h3 id="session-expiry-title" className="text-lg font-semibold">
+            Sua sessão vai expirar
+          </h3>
+        </div>
+        <p className="text-sm text-gray-600">
+          Por inatividade, você será desconectado em{" "}
+          <span className="font-semibold tabular-nums" aria-live="polite">
+            {fmtCountdown(secondsLeft)}
+          </span>
+          . Alterações não salvas podem ser perdidas.
+        </p>
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            onClick={onLogout}
+            className="px-3 py-2 rounded-md border hover:bg-gray-100 text-sm"
+            disabled={extending}
+          >
+            Sair
+          </button>
+          <button
+            onClick={onExtend}
+            className="px-3 py-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 text-sm disabled:opacity-50"
+            disabled={extending}
+            autoFocus
+          >
+            {extending ? "Renovando..." : "Continuar conectado"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function SessionExpiryPortal(props: SessionExpiryModalProps) {
+  const [host, setHost] = useState<HTMLElement | null>(null);
+  useEffect(() => {
+    let el = document.getElementById("session-root") as HTMLElement | null;
+    if (!el) {
+      el = document.createElement("div");
+      el.id = "session-root";
+      document.body.appendChild(el);
+    }
+    setHost(el);
+  }, []);
+  if (!host) return null;
+  return createPortal(<SessionExpiryModal {...props} />, host);
+}
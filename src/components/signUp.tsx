@@ -1,75 +1,223 @@
-import { ClipboardList, Lock, Mail, User, Eye, EyeOff } from "lucide-react";
-import { useNavigate } from "react-router-dom";
+import {
+  ClipboardList,
+  Lock,
+  Mail,
+  User,
+  Eye,
+  EyeOff,
+  KeyRound,
+  Loader,
+} from "lucide-react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { toast } from "sonner";
-import api from "../services/api";
+import { usersApi } from "../services/usersApi";
+import {
+  errorMessage,
+  fieldErrorsOf,
+  isApiError,
+  statusOf,
+} from "../services/apiError";
 import React from "react";
+import {
+  MIN_PASSWORD_LENGTH,
+  passwordsMismatch,
+  validatePassword,
+} from "../utils/password";
+
+type KeyState =
+  | "vazia"
+  | "validando"
+  | "valida"
+  | "invalida"
+  | "utilizada"
+  | "expirada"
+  | "nao-conferida";
+
+type Field = "name" | "email" | "password" | "chave";
+
+// Mesma convenção da redefinição de senha: 410 expirada, 409 já utilizada,
+// 404/400 inválida. Falha de rede ou do servidor não diz nada sobre a chave.
+function keyStateFromError(err: unknown): KeyState {
+  const status = statusOf(err);
+  if (status === 410) return "expirada";
+  if (status === 409) return "utilizada";
+  if (status === 404 || status === 400) return "invalida";
+  return "nao-conferida";
+}
+
+const keyMessages: Partial<Record<KeyState, string>> = {
+  validando: "Validando chave...",
+  valida: "Chave válida. Sua conta será ativada automaticamente.",
+  invalida: "Chave de acesso inválida.",
+  utilizada: "Esta chave de acesso já foi utilizada.",
+  expirada: "Esta chave de acesso expirou. Solicite uma nova.",
+  "nao-conferida":
+    "Não foi possível conferir a chave agora. Ela será verificada ao cadastrar.",
+};
 
 export default function SignUp() {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const [loading, setLoading] = React.useState(false);
   const [showPwd, setShowPwd] = React.useState(false);
   const [showConfirm, setShowConfirm] = React.useState(false);
+  const [keyState, setKeyState] = React.useState<KeyState>("vazia");
+  const [keyEmail, setKeyEmail] = React.useState<string | null>(null);
+  // chave já conferida, para não repetir a consulta a cada blur
+  const checkedKey = React.useRef("");
+  // erros devolvidos pelo backend no último envio, por campo
+  const [serverErrors, setServerErrors] = React.useState<
+    Partial<Record<Field, string>>
+  >({});
 
   const [form, setForm] = React.useState({
     name: "",
     email: "",
     password: "",
     confirmPassword: "",
+    chave: searchParams.get("chave")?.trim() ?? "",
   });
 
+  const validateKey = React.useCallback(
+    async (raw: string): Promise<KeyState> => {
+      const chave = raw.trim();
+      if (!chave) {
+        checkedKey.current = "";
+        setKeyEmail(null);
+        setKeyState("vazia");
+        return "vazia";
+      }
+      checkedKey.current = chave;
+      setKeyState("validando");
+      try {
+        const data = await usersApi.validateKey(chave);
+        if (checkedKey.current !== chave) return "validando";
+        // a chave foi emitida para um e-mail: a conta precisa usar o mesmo
+        const email = data?.email?.trim() || null;
+        setKeyEmail(email);
+        setForm((f) => ({
+          ...f,
+          email: email ?? f.email,
+          name: f.name || data?.nome || "",
+        }));
+        setKeyState("valida");
+        return "valida";
+      } catch (err) {
+        console.error("GET /validar-chave error:", err);
+        if (checkedKey.current !== chave) return "validando";
+        const next = keyStateFromError(err);
+        // sem resposta sobre a chave: o próximo blur ou envio confere de novo
+        if (next === "nao-conferida") checkedKey.current = "";
+        setKeyEmail(null);
+        setKeyState(next);
+        return next;
+      }
+    },
+    []
+  );
+
+  // Link do e-mail (/cadastro?chave=...) já chega com a chave preenchida
+  const initialKey = React.useRef(form.chave);
+  React.useEffect(() => {
+    if (initialKey.current) void validateKey(initialKey.current);
+  }, [validateKey]);
+
+  const clearServerError = (key: keyof typeof form) =>
+    setServerErrors((s) => ({
+      ...s,
+      [key === "confirmPassword" ? "password" : key]: undefined,
+    }));
+
   const update =
-    (key: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    (key: keyof typeof form) => (e: React.ChangeEvent<HTMLInputElement>) => {
       setForm((f) => ({ ...f, [key]: e.target.value }));
+      clearServerError(key);
+    };
+
+  const updateKey = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm((f) => ({ ...f, chave: e.target.value }));
+    clearServerError("chave");
+    // chave alterada precisa ser conferida de novo
+    checkedKey.current = "";
+    setKeyEmail(null);
+    setKeyState("vazia");
+  };
+
+  const handleKeyBlur = () => {
+    if (form.chave.trim() !== checkedKey.current) void validateKey(form.chave);
+  };
 
-  const mismatch =
-    form.confirmPassword.length > 0 && form.password !== form.confirmPassword;
+  const mismatch = passwordsMismatch(form.password, form.confirmPassword);
+  const keyError =
+    keyState === "invalida" ||
+    keyState === "utilizada" ||
+    keyState === "expirada" ||
+    !!serverErrors.chave;
+
+  const fieldClass = (invalid: boolean) =>
+    `flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-sky-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800 ${
+      invalid ? "border-rose-400" : "border-sky-300"
+    }`;
+
+  const serverError = (field: Field) =>
+    serverErrors[field] ? (
+      <p className="w-full text-xs text-rose-600 -mt-2">
+        {serverErrors[field]}
+      </p>
+    ) : null;
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (loading) return;
 
-    if (mismatch) {
-      toast.error("As senhas não coincidem.");
-      return;
-    }
-    if (form.password.length < 6) {
-      toast.error("A senha deve ter pelo menos 6 caracteres.");
+    const pwdError = validatePassword(form.password, form.confirmPassword);
+    if (pwdError) {
+      toast.error(pwdError);
       return;
     }
 
     setLoading(true);
+    setServerErrors({});
     try {
-      await api.post("/users", {
+      const chave = form.chave.trim();
+      // a chave é conferida antes de criar a conta
+      let state = keyState;
+      if (chave && (chave !== checkedKey.current || state === "validando")) {
+        state = await validateKey(chave);
+      }
+      // não conferida (rede/servidor): o cadastro segue e o backend valida
+      if (chave && state !== "valida" && state !== "nao-conferida") {
+        toast.error(keyMessages[state] ?? "Chave de acesso inválida.");
+        return;
+      }
+
+      await usersApi.signUp({
         name: form.name.trim(),
         email: form.email.trim(),
         password: form.password,
+        ...(chave ? { chave } : {}),
       });
       toast.success(
-        "Cadastro realizado. Contate a equipe de CVE para ativar sua conta.",
+        chave
+          ? "Conta criada e ativada. Faça login para continuar."
+          : "Cadastro realizado. Contate a equipe de CVE para ativar sua conta.",
         { closeButton: true }
       );
       navigate("/login");
-    } catch (err: unknown) {
-      let msg = "Falha ao cadastrar. Tente novamente.";
-      if (
-        typeof err === "object" &&
-        err !== null &&
-        "response" in err &&
-        typeof (err as { response?: unknown }).response === "object"
-      ) {
-        const response = (
-          err as { response?: { data?: { message?: string }; status?: number } }
-        ).response as any;
-        msg =
-          response?.data?.message ||
-          (response?.status === 409
-            ? "E-mail já cadastrado."
-            : "Falha ao cadastrar. Tente novamente.");
-        console.error("POST /users error:", response);
-      } else {
-        console.error("POST /users error:", err);
+    } catch (err) {
+      console.error("POST /users error:", err);
+      const fields = fieldErrorsOf<Field>(err);
+      // 409 sem detalhe: a chave já foi conferida, então o conflito é o e-mail
+      if (isApiError(err) && err.kind === "conflito" && !fields.email) {
+        fields.email = err.serverMessage ?? "E-mail já cadastrado.";
       }
-      toast.error(msg, { closeButton: true });
+      setServerErrors(fields);
+      // problema na chave (404/410) é mais claro que a mensagem genérica
+      toast.error(
+        fields.chave ??
+          errorMessage(err, "Falha ao cadastrar. Tente novamente."),
+        { closeButton: true }
+      );
     } finally {
       setLoading(false);
     }
@@ -100,8 +248,48 @@ export default function SignUp() {
           className="flex flex-col justify-center items-center gap-4 mt-8 w-full max-w-md"
           noValidate
         >
+          {/* Chave de acesso */}
+          <label className={fieldClass(keyError)}>
+            <KeyRound className="w-5 h-5 text-sky-500" />
+            <div className="flex flex-row items-center gap-2 w-full">
+              <span className="text-sm text-gray-600 dark:text-gray-300 whitespace-nowrap">
+                Chave:
+              </span>
+              <input
+                type="text"
+                name="chave"
+                value={form.chave}
+                onChange={updateKey}
+                onBlur={handleKeyBlur}
+                className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
+                placeholder="Chave de acesso (opcional)"
+                autoComplete="off"
+                spellCheck={false}
+                aria-invalid={keyError}
+                aria-describedby="signup-key-hint"
+              />
+              {keyState === "validando" && (
+                <Loader className="animate-spin w-4 h-4 text-gray-400" />
+              )}
+            </div>
+          </label>
+          <p
+            id="signup-key-hint"
+            className={`w-full text-xs -mt-2 ${
+              keyError
+                ? "text-rose-600"
+                : keyState === "valida"
+                  ? "text-green-600"
+                  : "text-gray-500 dark:text-gray-400"
+            }`}
+          >
+            {serverErrors.chave ??
+              keyMessages[keyState] ??
+              "Recebeu uma chave por e-mail? Informe-a para ativar a conta na hora."}
+          </p>
+
           {/* Nome */}
-          <label className="flex items-center gap-2 border-2 border-sky-300 p-2 rounded-md w-full transition-colors focus-within:border-sky-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800">
+          <label className={fieldClass(!!serverErrors.name)}>
             <User className="w-5 h-5 text-sky-500" />
             <div className="flex flex-row items-center gap-2 w-full">
               <span className="text-sm text-gray-600 dark:text-gray-300">
@@ -116,12 +304,14 @@ export default function SignUp() {
                 placeholder="Digite seu nome completo"
                 autoComplete="name"
                 required
+                aria-invalid={!!serverErrors.name}
               />
             </div>
           </label>
+          {serverError("name")}
 
           {/* Email */}
-          <label className="flex items-center gap-2 border-2 border-sky-300 p-2 rounded-md w-full transition-colors focus-within:border-sky-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800">
+          <label className={fieldClass(!!serverErrors.email)}>
             <Mail className="w-5 h-5 text-sky-500" />
             <div className="flex flex-row items-center gap-2 w-full">
               <span className="text-sm text-gray-600 dark:text-gray-300">
@@ -132,20 +322,22 @@ export default function SignUp() {
                 name="email"
                 value={form.email}
                 onChange={update("email")}
-                className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
+                readOnly={!!keyEmail}
+                title={
+                  keyEmail ? "E-mail vinculado à chave de acesso" : undefined
+                }
+                className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full read-only:text-gray-500"
                 placeholder="Digite seu e-mail"
                 autoComplete="email"
                 required
+                aria-invalid={!!serverErrors.email}
               />
             </div>
           </label>
+          {serverError("email")}
 
           {/* Senha */}
-          <label
-            className={`flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-sky-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800 ${
-              mismatch ? "border-rose-400" : "border-sky-300"
-            }`}
-          >
+          <label className={fieldClass(mismatch || !!serverErrors.password)}>
             <Lock className="w-5 h-5 text-sky-500" />
             <div className="flex flex-row items-center gap-2 w-full">
               <span className="text-sm text-gray-600 dark:text-gray-300">
@@ -160,9 +352,9 @@ export default function SignUp() {
                   className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full pr-8"
                   placeholder="Crie uma senha"
                   autoComplete="new-password"
-                  minLength={6}
+                  minLength={MIN_PASSWORD_LENGTH}
                   required
-                  aria-invalid={mismatch}
+                  aria-invalid={mismatch || !!serverErrors.password}
                 />
                 <button
                   type="button"
@@ -182,11 +374,7 @@ export default function SignUp() {
           </label>
 
           {/* Confirmar Senha */}
-          <label
-            className={`flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-sky-500 focus-within:bg-sky-50 dark:focus-within:bg-zinc-800 ${
-              mismatch ? "border-rose-400" : "border-sky-300"
-            }`}
-          >
+          <label className={fieldClass(mismatch || !!serverErrors.password)}>
             <Lock className="w-5 h-5 text-sky-500" />
             <div className="flex flex-row items-center gap-2 w-full">
               <span className="text-sm text-gray-600 dark:text-gray-300">
@@ -201,9 +389,9 @@ export default function SignUp() {
                   className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full pr-8"
                   placeholder="Repita a senha"
                   autoComplete="new-password"
-                  minLength={6}
+                  minLength={MIN_PASSWORD_LENGTH}
                   required
-                  aria-invalid={mismatch}
+                  aria-invalid={mismatch || !!serverErrors.password}
                 />
                 <button
                   type="button"
@@ -224,10 +412,12 @@ export default function SignUp() {
             </div>
           </label>
 
-          {mismatch && (
+          {mismatch ? (
             <p className="w-full text-xs text-rose-600 -mt-2">
               As senhas não coincidem.
             </p>
+          ) : (
+            serverError("password")
           )}
 
           <button
@@ -1,48 +1,74 @@
 import { ClipboardList, Loader, Lock, Mail, Eye, EyeOff } from "lucide-react";
-import { useNavigate } from "react-router-dom";
-import api from "../services/api";
+import { Navigate, useNavigate, useSearchParams } from "react-router-dom";
+import { authApi } from "../services/authApi";
 import { useState } from "react";
 import { toast } from "sonner";
+import { useAuth } from "../contexts/authContext";
+import { redirectFromSearch } from "../utils/redirect";
+import { errorMessage, fieldErrorsOf, statusOf } from "../services/apiError";
 
-import { parseJwtExpMs } from "../utils/jwt";
+type Field = "email" | "password";
 
-interface SignInProps {
-  onLogin: () => void;
-}
-
-export default function SignIn({ onLogin }: SignInProps) {
+export default function SignIn() {
+  const { isAuthenticated, login } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<
+    Partial<Record<Field, string>>
+  >({});
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     setLoading(true);
+    setFieldErrors({});
     try {
-      const { data } = await api.post("/auth/login", { email, password });
-      const { token } = data;
-
-      localStorage.setItem("token", token);
-      localStorage.setItem("authenticated", "true");
+      const token = await authApi.login(email, password);
 
-      const expMs = parseJwtExpMs(token);
-      if (expMs > 0) localStorage.setItem("expires_at", String(expMs));
-
-      onLogin();
-      navigate("/dashboard");
+      // com a sessão ativa, o redirecionamento abaixo leva ao destino original
+      login(token);
     } catch (erro) {
       console.error("Erro ao fazer login", erro);
+      if (statusOf(erro) === 401) {
+        // destaca os dois campos: não revela qual deles está errado
+        setFieldErrors({ email: "", password: "E-mail ou senha incorretos." });
+        return;
+      }
+      setFieldErrors(fieldErrorsOf<Field>(erro));
       toast.error(
-        "Erro ao fazer login. Verifique suas credenciais e tente novamente."
+        errorMessage(
+          erro,
+          "Erro ao fazer login. Verifique suas credenciais e tente novamente."
+        )
       );
     } finally {
       setLoading(false);
     }
   };
 
+  const fieldClass = (field: Field) =>
+    `flex items-center gap-2 border-2 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-green-50 dark:focus-within:bg-zinc-800 ${
+      fieldErrors[field] !== undefined ? "border-rose-400" : "border-green-300"
+    }`;
+
+  const fieldError = (field: Field) =>
+    fieldErrors[field] ? (
+      <p className="w-full text-xs text-rose-600 -mt-3">{fieldErrors[field]}</p>
+    ) : null;
+
+  const clearError = (field: Field) =>
+    setFieldErrors((f) => ({ ...f, [field]: undefined }));
+
   const handleRegister = () => navigate("/cadastro");
+  const handleForgot = () => navigate("/esqueci-senha");
+
+  // Sessão já ativa (inclusive login feito em outra aba)
+  if (isAuthenticated) {
+    return <Navigate to={redirectFromSearch(searchParams)} replace />;
+  }
 
   return (
     <div className="flex items-center justify-center h-screen bg-white text-black dark:bg-zinc-900 dark:text-white">
@@ -66,7 +92,7 @@ export default function SignIn({ onLogin }: SignInProps) {
           className="flex flex-col justify-center items-center gap-4 mt-8 w-full max-w-md"
         >
           {/* Email */}
-          <label className="flex items-center gap-2 border-2 border-green-300 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-green-50 dark:focus-within:bg-zinc-800">
+          <label className={fieldClass("email")}>
             <Mail className="w-5 h-5 text-green-500" />
             <div className="flex flex-row items-center gap-2 w-full">
               <span className="text-sm text-gray-600 dark:text-gray-300">
@@ -77,15 +103,20 @@ export default function SignIn({ onLogin }: SignInProps) {
                 name="email"
                 className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full"
                 value={email}
-                onChange={(e) => setEmail(e.target.value)}
+                onChange={(e) => {
+                  setEmail(e.target.value);
+                  clearError("email");
+                }}
                 placeholder="Digite seu e-mail"
                 autoComplete="username"
+                aria-invalid={fieldErrors.email !== undefined}
               />
             </div>
           </label>
+          {fieldError("email")}
 
           {/* Senha com toggle */}
-          <label className="flex items-center gap-2 border-2 border-green-300 p-2 rounded-md w-full transition-colors focus-within:border-green-500 focus-within:bg-green-50 dark:focus-within:bg-zinc-800">
+          <label className={fieldClass("password")}>
             <Lock className="w-5 h-5 text-green-500" />
             <div className="flex flex-row items-center gap-2 w-full">
               <span className="text-sm text-gray-600 dark:text-gray-300">
@@ -97,9 +128,13 @@ export default function SignIn({ onLogin }: SignInProps) {
                   name="password"
                   className="bg-transparent outline-none border-none text-black dark:text-white placeholder:text-gray-400 w-full pr-8"
                   value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  onChange={(e) => {
+                    setPassword(e.target.value);
+                    clearError("password");
+                  }}
                   placeholder="Digite sua senha"
                   autoComplete="current-password"
+                  aria-invalid={fieldErrors.password !== undefined}
                 />
                 <button
                   type="button"
@@ -118,6 +153,15 @@ export default function SignIn({ onLogin }: SignInProps) {
               </div>
             </div>
           </label>
+          {fieldError("password")}
+
+          <button
+            type="button"
+            onClick={handleForgot}
+            className="self-end -mt-2 text-xs text-green-500 underline hover:text-green-600 transition-colors"
+          >
+            Esqueci minha senha
+          </button>
 
           <button
             disabled={loading}
@@ -0,0 +1,31 @@
+import { TriangleAlert } from "lucide-react";
+
+interface UnexpectedResponseProps {
+  onRetry?: () => void;
+}
+
+// Exibido quando a API responde fora do formato esperado (ver services/schema)
+export default function UnexpectedResponse({
+  onRetry,
+}: UnexpectedResponseProps) {
+  return (
+    <div className="flex flex-col items-center gap-2 text-center">
+      <TriangleAlert className="w-16 h-16 text-rose-400" strokeWidth={1} />
+      <p className="font-semibold text-gray-700 dark:text-gray-200">
+        Resposta inesperada do servidor
+      </p>
+      <p className="text-sm text-gray-500 dark:text-gray-400 max-w-md">
+        Os dados recebidos não estão no formato esperado. Tente novamente; se o
+        problema continuar, avise a equipe de CVE.
+      </p>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="mt-2 px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer"
+        >
+          Tentar novamente
+        </button>
+      )}
+    </div>
+  );
+}
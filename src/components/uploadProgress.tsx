@@ -0,0 +1,96 @@
+import { UploadCloud, X } from "lucide-react";
+import { formatBytes, type UploadProgress } from "../services/uploads";
+
+interface UploadProgressPanelProps {
+  progress: UploadProgress;
+  onCancel: () => void;
+}
+
+const percent = (loaded: number, total: number) =>
+  total > 0 ? Math.min(100, Math.round((loaded / total) * 100)) : 0;
+
+function remaining(p: UploadProgress) {
+  if (p.bytesPerSecond <= 0) return null;
+  const s = Math.ceil((p.total - p.loaded) / p.bytesPerSecond);
+  if (s < 60) return `~${s} s restantes`;
+  return `~${Math.ceil(s / 60)} min restantes`;
+}
+
+function Bar({ value, label }: { value: number; label: string }) {
+  return (
+    <div
+      role="progressbar"
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={value}
+      className="h-2 w-full rounded-full bg-gray-200 dark:bg-zinc-700 overflow-hidden"
+    >
+      <div
+        className="h-full bg-blue-600 transition-[width] duration-200"
+        style={{ width: `${value}%` }}
+      />
+    </div>
+  );
+}
+
+// Progresso de um envio de firmwares (ver hooks/useUpload)
+export default function UploadProgressPanel({
+  progress,
+  onCancel,
+}: UploadProgressPanelProps) {
+  const total = percent(progress.loaded, progress.total);
+  const eta = remaining(progress);
+  const done = progress.loaded >= progress.total;
+
+  return (
+    <div
+      aria-live="polite"
+      className="rounded-md border border-blue-200 dark:border-blue-900 bg-blue-50 dark:bg-blue-950/30 p-3 space-y-3 text-sm"
+    >
+      <div className="flex items-center gap-2">
+        <UploadCloud className="w-4 h-4 text-blue-600" />
+        <span className="font-medium">
+          {done
+            ? "Processando no servidor..."
+            : `Enviando ${progress.files.length === 1 ? "firmware" : `${progress.files.length} firmwares`}`}
+        </span>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="ml-auto inline-flex items-center gap-1 px-2 py-1 rounded-md border border-rose-300 text-rose-700 hover:bg-rose-50 dark:hover:bg-rose-950/40 text-xs cursor-pointer"
+        >
+          <X className="w-3.5 h-3.5" />
+          Cancelar envio
+        </button>
+      </div>
+
+      <div className="space-y-1">
+        <Bar value={total} label="Progresso total" />
+        <p className="text-xs text-gray-600 dark:text-gray-300">
+          {total}% • {formatBytes(progress.loaded)} de{" "}
+          {formatBytes(progress.total)}
+          {progress.bytesPerSecond > 0 &&
+            ` • ${formatBytes(progress.bytesPerSecond)}/s`}
+          {!done && eta && ` • ${eta}`}
+        </p>
+      </div>
+
+      {progress.files.length > 0 && (
+        <ul className="space-y-2">
+          {progress.files.map((f, i) => (
+            <li key={`${f.name}-${i}`} className="space-y-1">
+              <div className="flex justify-between gap-2 text-xs">
+                <span className="truncate">{f.name}</span>
+                <span className="text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {percent(f.loaded, f.total)}%
+                </span>
+              </div>
+              <Bar value={percent(f.loaded, f.total)} label={f.name} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+// src/components/users/users.tsx
+import React, { useCallback, useEffect, useMemo, useState, memo } from "react";
+import { createPortal } from "react-dom";
+import { Inbox } from "lucide-react";
+import { toast } from "sonner";
+import type { User, UserStatus } from "../../services/models";
+import { isUnexpectedResponse } from "../../services/schema";
+import { errorMessage } from "../../services/apiError";
+import { usersApi } from "../../services/usersApi";
+import UnexpectedResponse from "../unexpectedResponse";
+import { useAuth } from "../../contexts/authContext";
+import { ROLES, type Role } from "../../utils/jwt";
+import { roleLabels } from "../../utils/permissions";
+import { useOnlineStatus } from "../../hooks/useOnlineStatus";
+
+type ConfirmState =
+  | {
+      open: true;
+      title: string;
+      message: string;
+      confirmLabel: string;
+      busyLabel: string;
+      danger?: boolean;
+      onConfirm: () => Promise<void>;
+      busy?: boolean;
+    }
+  | { open: false };
+
+const statusLabels: Record<UserStatus, string> = {
+  pendente: "Pendente",
+  ativo: "Ativo",
+  bloqueado: "Bloqueado",
+};
+
+export default function UsersPage() {
+  const online = useOnlineStatus();
+  const { claims } = useAuth();
+  const [data, setData] = useState<User[]>([]);
+  const [search, setSearch] = useState("");
+  const [statusFilter, setStatusFilter] = useState<"Todos" | UserStatus>(
+    "pendente"
+  );
+  const [requestedPage, setPage] = useState(1);
+  const [busyId, setBusyId] = useState<number | null>(null);
+  const [confirm, setConfirm] = useState<ConfirmState>({ open: false });
+  const [invalidResponse, setInvalidResponse] = useState(false);
+
+  const perPage = 10;
+
+  const getData = useCallback(async () => {
+    try {
+      setData(await usersApi.list());
+      setInvalidResponse(false);
+    } catch (err) {
+      console.error("GET /users error:", err);
+      if (isUnexpectedResponse(err)) setInvalidResponse(true);
+      else toast.error(errorMessage(err, "Falha ao carregar usuários."));
+    }
+  }, []);
+
+  useEffect(() => {
+    getData();
+  }, [getData]);
+
+  const counts = useMemo(() => {
+    const c: Record<UserStatus, number> = {
+      pendente: 0,
+      ativo: 0,
+      bloqueado: 0,
+    };
+    data.forEach((u) => {
+      if (u.status in c) c[u.status] += 1;
+    });
+    return c;
+  }, [data]);
+
+  const filtered = useMemo(() => {
+    const s = search.trim().toLowerCase();
+    return data.filter((u) => {
+      const matchesSearch =
+        !s ||
+        u.name.toLowerCase().includes(s) ||
+        u.email.toLowerCase().includes(s);
+      const matchesStatus =
+        statusFilter === "Todos" ? true : u.status === statusFilter;
+      return matchesSearch && matchesStatus;
+    });
+  }, [data, search, statusFilter]);
+
+  const totalPages = Math.max(1, Math.ceil(filtered.length / perPage));
+  // a lista pode encolher (filtro, ativação/bloqueio, recarga) e sumir a página
+  const page = Math.min(requestedPage, totalPages);
+  const pageData = filtered.slice((page - 1) * perPage, page * perPage);
+
+  const fmtDate = (iso?: string) => {
+    if (!iso) return "-";
+    const d = new Date(iso);
+    if (isNaN(d.getTime())) return "-";
+    return d.toLocaleDateString("pt-BR", {
+      timeZone: "America/Sao_Paulo",
+    });
+  };
+
+  const statusPill = (status: UserStatus) => {
+    const base =
+      "inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium";
+    if (status === "ativo")
+      return `${base} bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-300`;
+    if (status === "pendente")
+      return `${base} bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-300`;
+    return `${base} bg-rose-100 text-rose-700 dark:bg-rose-900 dark:text-rose-300`;
+  };
+
+  const isSelf = (u: User) => claims?.sub === String(u.id);
+
+  const patchUser = async (
+    u: User,
+    patch: Partial<Pick<User, "status" | "role">>,
+    successMsg: string
+  ) => {
+    setBusyId(u.id);
+    try {
+      await usersApi.update(u.id, patch);
+      setData((prev) =>
+        prev.map((x) => (x.id === u.id ? { ...x, ...patch } : x))
+      );
+      toast.success(successMsg);
+    } catch (err) {
+      console.error("PATCH /users error:", err);
+      toast.error(errorMessage(err, "Falha ao atualizar usuário."));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const activate = (u: User) =>
+    patchUser(u, { status: "ativo" }, `Conta de ${u.name} ativada.`);
+
+  const changeRole = (u: User, role: Role) =>
+    patchUser(u, { role }, `${u.name} agora é ${roleLabels[role]}.`);
+
+  const askBlock = (u: User) =>
+    setConfirm({
+      open: true,
+      title: "Bloquear usuário",
+      message: `Confirma bloquear ${u.name} (${u.email})? O acesso será interrompido imediatamente.`,
+      confirmLabel: "Bloquear",
+      busyLabel: "Bloqueando...",
+      danger: true,
+      onConfirm: () =>
+        patchUser(u, { status: "bloqueado" }, `${u.name} foi bloqueado.`),
+    });
+
+  const askReset = (u: User) =>
+    setConfirm({
+      open: true,
+      title: "Redefinir senha",
+      message: `Enviar para ${u.email} um link de redefinição de senha? A senha atual continua válida até ser trocada.`,
+      confirmLabel: "Enviar link",
+      busyLabel: "Enviando...",
+      onConfirm: async () => {
+        try {
+          await usersApi.sendPasswordReset(u.id);
+          toast.success(`Link de redefinição enviado para ${u.email}.`);
+        } catch (err) {
+          console.error("POST /users/reset-password error:", err);
+          toast.error(
+            errorMessage(err, "Falha ao enviar link de redefinição.")
+          );
+        }
+      },
+    });
+
+  const doConfirm = async () => {
+    if (!confirm.open) return;
+    setConfirm({ ...confirm, busy: true });
+    try {
+      await confirm.onConfirm();
+    } finally {
+      setConfirm({ open: false });
+    }
+  };
+
+  const btn =
+    "px-2 py-1 rounded-md border dark:border-zinc-700 hover:bg-gray-100 dark:hover:bg-zinc-800 text-xs cursor-pointer disabled:opacity-50";
+
+  return (
+    <div className="md:py-6 md:px-40 md:mt-10 space-y-4">
+      {/* Filtros */}
+      <div className="rounded-xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700 bg-white dark:bg-zinc-900 px-4 py-3">
+        <div className="flex flex-col md:flex-row gap-3">
+          <input
+            className="w-full md:w-1/2 px-3 py-2 rounded-md border border-gray-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-sm"
+            placeholder="Buscar por nome ou e-mail"
+            value={search}
+            onChange={(e) => {
+              setPage(1);
+              setSearch(e.target.value);
+            }}
+          />
+          <select
+            value={statusFilter}
+            onChange={(e) => {
+              setPage(1);
+              setStatusFilter(e.target.value as "Todos" | UserStatus);
+            }}
+            className="w-full md:w-64 px-3 py-2 rounded-md border border-gray-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-sm"
+          >
+            <option value="pendente">Pendentes ({counts.pendente})</option>
+            <option value="ativo">Ativos ({counts.ativo})</option>
+            <option value="bloqueado">Bloqueados ({counts.bloqueado})</option>
+            <option value="Todos">Todos ({data.length})</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Lista */}
+      <div className="overflow-hidden rounded-xl shadow-lg ring-1 ring-slate-200 dark:ring-zinc-700">
+        <div
+          className="overflow-x-auto md:overflow-visible"
+          style={{ WebkitOverflowScrolling: "touch" }}
+        >
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-zinc-700 text-sm">
+            <thead className="bg-gray-100 dark:bg-zinc-800">
+              <tr className="whitespace-nowrap">
+                <th className="px-4 py-3 text-left font-semibold">ID</th>
+                <th className="px-4 py-3 text-left font-semibold">Nome</th>
+                <th className="px-4 py-3 text-left font-semibold">E-mail</th>
+                <th className="px-4 py-3 text-left font-semibold">Papel</th>
+                <th className="px-4 py-3 text-left font-semibold">Status</th>
+                <th className="px-4 py-3 text-left font-semibold">Criado em</th>
+                <th className="px-4 py-3 text-right font-semibold">Ações</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-zinc-900 divide-y divide-gray-200 dark:divide-zinc-700">
+              {pageData.map((u) => {
+                const busy = busyId === u.id || !online;
+                const self = isSelf(u);
+                return (
+                  <tr key={u.id} className="align-top">
+                    <td className="px-4 py-3">{u.id}</td>
+                    <td className="px-4 py-3 font-medium">
+                      {u.name}
+                      {self && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          (você)
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">{u.email}</td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={u.role}
+                        disabled={busy || self}
+                        onChange={(e) => changeRole(u, e.target.value as Role)}
+                        className="px-2 py-1 rounded-md border border-gray-300 dark:border-zinc-600 bg-white dark:bg-zinc-800 text-xs disabled:opacity-50"
+                      >
+                        {ROLES.map((r) => (
+                          <option key={r} value={r}>
+                            {roleLabels[r]}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-4 py-3">
+                      <span className={statusPill(u.status)}>
+                        {statusLabels[u.status] ?? u.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">{fmtDate(u.createdAt)}</td>
+                    <td className="px-4 py-3 text-right">
+                      <div className="inline-flex items-center gap-2">
+                        {u.status !== "ativo" && (
+                          <button
+                            onClick={() => activate(u)}
+                            disabled={busy || self}
+                            className="px-2 py-1 rounded-md bg-green-600 text-white hover:bg-green-700 text-xs cursor-pointer disabled:opacity-50"
+                          >
+                            {u.status === "bloqueado"
+                              ? "Desbloquear"
+                              : "Ativar"}
+                          </button>
+                        )}
+                        {u.status !== "bloqueado" && (
+                          <button
+                            onClick={() => askBlock(u)}
+                            disabled={busy || self}
+                            className="px-2 py-1 rounded-md bg-rose-600 text-white hover:bg-rose-700 text-xs cursor-pointer disabled:opacity-50"
+                          >
+                            Bloquear
+                          </button>
+                        )}
+                        <button
+                          onClick={() => askReset(u)}
+                          disabled={busy}
+                          className={btn}
+                        >
+                          Redefinir senha
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+
+              {filtered.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="px-4 py-8 text-center text-gray-500 dark:text-gray-400"
+                  >
+                    {invalidResponse ? (
+                      <UnexpectedResponse onRetry={getData} />
+                    ) : (
+                      <>
+                        <Inbox
+                          className="w-16 h-16 mx-auto mb-2 text-gray-400 dark:text-gray-500"
+                          strokeWidth={1}
+                        />
+                        Nenhum usuário encontrado
+                      </>
+                    )}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Paginação */}
+        {filtered.length > 0 && (
+          <div className="flex justify-center items-center gap-2 py-3">
+            <button
+              onClick={() => setPage(Math.max(1, page - 1))}
+              disabled={page === 1}
+              className="w-8 h-8 flex items-center justify-center rounded-md border dark:border-zinc-700 hover:bg-gray-200 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              &lt;
+            </button>
+            <span className="text-sm">
+              {page} / {totalPages}
+            </span>
+            <button
+              onClick={() => setPage(Math.min(totalPages, page + 1))}
+              disabled={page === totalPages}
+              className="w-8 h-8 flex items-center justify-center rounded-md border dark:border-zinc-700 hover:bg-gray-200 dark:hover:bg-zinc-800 disabled:opacity-50"
+            >
+              &gt;
+            </button>
+          </div>
+        )}
+      </div>
+
+      <ConfirmPortal
+        confirm={confirm}
+        setConfirm={setConfirm}
+        onConfirm={doConfirm}
+      />
+    </div>
+  );
+}
+
+/* ===== Modal de confirmação ===== */
+
+type ConfirmPortalProps = {
+  confirm: ConfirmState;
+  setConfirm: React.Dispatch<React.SetStateAction<ConfirmState>>;
+  onConfirm: () => Promise<void>;
+};
+
+const ConfirmModal = memo(function ConfirmModal({
+  confirm,
+  setConfirm,
+  onConfirm,
+}: ConfirmPortalProps) {
+  const online = useOnlineStatus();
+  if (!confirm.open) return null;
+  return (
+    <div
+      className="fixed inset-0 z-[110] flex items-center justify-center"
+      aria-modal="true"
+      role="dialog"
+      onMouseDown={() => setConfirm({ open: false })}
+    >
+      <div className="absolute inset-0 bg-black/40" />
+      <div
+        className="relative w-full max-w-md rounded-xl border border-gray-200 bg-white dark:bg-white text-gray-900 dark:text-gray-900 p-5 shadow-2xl"
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-semibold mb-1">{confirm.title}</h3>
+        <p className="text-sm text-gray-600">{confirm.message}</p>
+        <div className="mt-5 flex justify-end gap-2">
+          <button
+            onClick={() => setConfirm({ open: false })}
+            className="px-3 py-2 rounded-md border hover:bg-gray-100 text-sm"
+            disabled={confirm.busy}
+          >
+            Cancelar
+          </button>
+          <button
+            onClick={onConfirm}
+            className={`px-3 py-2 rounded-md text-white text-sm disabled:opacity-50 ${
+              confirm.danger
+                ? "bg-rose-600 hover:bg-rose-700"
+                : "bg-blue-600 hover:bg-blue-700"
+            }`}
+            disabled={confirm.busy || !online}
+          >
+            {confirm.busy ? confirm.busyLabel : confirm.confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+});
+
+function ConfirmPortal(props: ConfirmPortalProps) {
+  const [host, setHost] = useState<HTMLElement | null>(null);
+  useEffect(() => {
+    let el = document.getElementById("confirm-root") as HTMLElement | null;
+    if (!el) {
+      el = document.createElement("div");
+      el.id = "confirm-root";
+      document.body.appendChild(el);
+    }
+    setHost(el);
+  }, []);
+  if (!host) return null;
+  return createPortal(<ConfirmModal {...props} />, host);
+}
@@ -0,0 +1,72 @@
+// src/contexts/AuthProvider.tsx
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import { toast } from "sonner";
+import SessionExpiryModal from "../components/sessionExpiryModal";
+import { useSessionManager } from "../hooks/useSessionManager";
+import { authStore, type AuthStore } from "../services/authStore";
+import { queryCache } from "../services/queryCache";
+import { AuthContext, type AuthContextValue } from "./authContext";
+
+interface AuthProviderProps {
+  children: React.ReactNode;
+  store?: AuthStore;
+}
+
+export default function AuthProvider({
+  children,
+  store = authStore,
+}: AuthProviderProps) {
+  const state = useSyncExternalStore(store.subscribe, store.getState);
+
+  useEffect(() => store.connect(), [store]);
+
+  // dados em cache pertencem à sessão que os buscou
+  useEffect(() => {
+    if (state.status === "unauthenticated") queryCache.clear();
+  }, [state.status]);
+
+  const handleExpire = useCallback(() => {
+    store.logout();
+    toast.info("Sua sessão expirou. Faça login novamente.");
+  }, [store]);
+
+  const session = useSessionManager({
+    enabled: state.status === "authenticated",
+    expiresAt: state.expiresAt,
+    refresh: store.refresh,
+    onExpire: handleExpire,
+  });
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      status: state.status,
+      isAuthenticated: state.status === "authenticated",
+      claims: state.claims,
+      user: state.claims
+        ? {
+            id: state.claims.sub,
+            name: state.claims.name,
+            email: state.claims.email,
+            role: state.claims.role,
+          }
+        : null,
+      login: store.login,
+      logout: store.logout,
+      refresh: store.refresh,
+    }),
+    [state, store]
+  );
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <SessionExpiryModal
+        open={session.warningOpen}
+        secondsLeft={session.secondsLeft}
+        extending={session.extending}
+        onExtend={session.extend}
+        onLogout={store.logout}
+      />
+    </AuthContext.Provider>
+  );
+}
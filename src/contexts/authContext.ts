@@ -0,0 +1,29 @@
+// src/contexts/authContext.ts
+import { createContext, useContext } from "react";
+import type { AuthStatus } from "../services/authStore";
+import type { JwtClaims, Role } from "../utils/jwt";
+
+export type AuthUser = {
+  id?: string;
+  name?: string;
+  email?: string;
+  role: Role;
+};
+
+export type AuthContextValue = {
+  status: AuthStatus;
+  isAuthenticated: boolean;
+  user: AuthUser | null;
+  claims: JwtClaims | null;
+  login: (token: string) => void;
+  logout: () => void;
+  refresh: () => Promise<string>;
+};
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function useAuth(): AuthContextValue {
+  const ctx = useContext(AuthContext);
+  if (!ctx) throw new Error("useAuth deve ser usado dentro de <AuthProvider>");
+  return ctx;
+}
@@ -0,0 +1,8 @@
+// src/hooks/useOnlineStatus.ts
+import { useSyncExternalStore } from "react";
+import { isOnline, subscribeOnline } from "../services/network";
+
+/** `false` enquanto o navegador estiver sem conexão. */
+export function useOnlineStatus() {
+  return useSyncExternalStore(subscribeOnline, isOnline);
+}
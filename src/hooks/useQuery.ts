@@ -0,0 +1,47 @@
+// src/hooks/useQuery.ts
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { queryCache, type QueryState } from "../services/queryCache";
+
+const noop = () => () => {};
+const IDLE: QueryState<never> = {
+  data: undefined,
+  error: null,
+  fetching: false,
+  updatedAt: 0,
+};
+
+/**
+ * Lê `key` do queryCache e busca na montagem se ainda não houver dados.
+ * `key` null desliga a consulta (ex.: id inválido na URL).
+ */
+export function useQuery<T>(key: string | null, fetcher: () => Promise<T>) {
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const state = useSyncExternalStore(
+    useCallback(
+      (listener: () => void) =>
+        key ? queryCache.subscribe(key, listener) : noop(),
+      [key]
+    ),
+    () => (key ? queryCache.getState<T>(key) : IDLE)
+  );
+
+  useEffect(() => {
+    if (!key) return;
+    // o erro fica no estado; aqui só evita "unhandled rejection"
+    queryCache.fetch(key, () => fetcherRef.current()).catch(() => undefined);
+  }, [key]);
+
+  const refetch = useCallback(() => {
+    if (!key) return Promise.resolve(undefined);
+    return queryCache
+      .fetch(key, () => fetcherRef.current(), { force: true })
+      .catch(() => undefined);
+  }, [key]);
+
+  /** Primeira carga, ainda sem dados nem erro. */
+  const loading = !!key && state.data === undefined && !state.error;
+
+  return { ...state, loading, refetch };
+}
@@ -0,0 +1,506 @@
+// src/hooks/useReleaseEditor.ts
+// Estado dos modais de edição/exclusão de uma release, compartilhado pela
+// lista de firmwares e pela página de detalhes. As gravações passam pelo
+// releasesCache, que atualiza a release alterada onde ela estiver exibida.
+import { useState } from "react";
+import { toast } from "sonner";
+import { can } from "../utils/permissions";
+import { toInputDate } from "../services/dates";
+import type {
+  Release,
+  ReleaseEntry,
+  ReleaseLink,
+  ReleaseModule,
+} from "../services/models";
+import { sameLink } from "../services/releasesApi";
+import {
+  errorMessage,
+  isApiError,
+  type FieldErrors,
+} from "../services/apiError";
+import { releasesCache } from "../services/releasesCache";
+import { validateFirmwareFile } from "../services/uploads";
+import { useUpload } from "./useUpload";
+import type {
+  ConfirmState,
+  LinkDraft,
+  ModalState,
+} from "../components/dashboard/components/releaseTypes";
+import type {
+  ConfirmPortalProps,
+  EditModalProps,
+} from "../components/dashboard/components/releaseModals";
+
+type ReleaseEditorOptions = {
+  /** Chamado depois que a própria release é excluída. */
+  onReleaseDeleted?: (r: Release) => void;
+};
+
+export function useReleaseEditor({
+  onReleaseDeleted,
+}: ReleaseEditorOptions = {}) {
+  const [modal, setModal] = useState<ModalState>({ open: false });
+  const [confirm, setConfirm] = useState<ConfirmState>({ open: false });
+  const [saving, setSaving] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const upload = useUpload();
+
+  const clearFieldErrors = (fields: string[]) =>
+    setFieldErrors((prev) => {
+      if (!fields.some((f) => f in prev)) return prev;
+      const next = { ...prev };
+      fields.forEach((f) => delete next[f]);
+      return next;
+    });
+
+  /** Toast com a mensagem normalizada e destaque dos campos rejeitados. */
+  const reportSaveError = (label: string, err: unknown, fallback: string) => {
+    console.error(`${label} error:`, err);
+    setFieldErrors(isApiError(err) ? err.fields : {});
+    toast.error(errorMessage(err, fallback));
+  };
+
+  const openLinkAdd = (r: Release) =>
+    setModal({
+      open: true,
+      type: "link",
+      mode: "add",
+      release: r,
+      data: {
+        module: "",
+        description: "",
+        url: "",
+        _file: null,
+        _dir: "",
+      } as LinkDraft,
+    });
+
+  const openLinkEdit = (r: Release, l: ReleaseLink) =>
+    setModal({
+      open: true,
+      type: "link",
+      mode: "edit",
+      release: r,
+      data: {
+        id: l.id,
+        module: l.module,
+        description: l.description,
+        url: l.url,
+        _file: null,
+        _dir: "",
+      } as LinkDraft,
+    });
+
+  const openReleaseEdit = (r: Release) =>
+    setModal({
+      open: true,
+      type: "release",
+      mode: "edit",
+      release: r,
+      data: {
+        version: r.version,
+        previousVersion: r.previousVersion,
+        ota: r.ota,
+        otaObs: r.otaObs ?? "",
+        releaseDate: toInputDate(r.releaseDate),
+        importantNote: r.importantNote ?? "",
+        productCategory: r.productCategory,
+        productName: r.productName,
+        status: r.status,
+      },
+    });
+
+  const openModuleAdd = (r: Release) =>
+    setModal({
+      open: true,
+      type: "module",
+      mode: "add",
+      release: r,
+      data: { module: "", version: "", updated: false },
+    });
+
+  const openModuleEdit = (r: Release, m: ReleaseModule) =>
+    setModal({
+      open: true,
+      type: "module",
+      mode: "edit",
+      release: r,
+      data: {
+        id: m.id,
+        module: m.module,
+        version: m.version,
+        updated: m.updated,
+      },
+    });
+
+  const openEntryAdd = (r: Release) =>
+    setModal({
+      open: true,
+      type: "entry",
+      mode: "add",
+      release: r,
+      data: {
+        itemOrder: ((r.entries ?? []).length || 0) + 1,
+        classification: "",
+        category: "",
+        observation: "",
+      },
+    });
+
+  const openEntryEdit = (r: Release, e: ReleaseEntry) =>
+    setModal({
+      open: true,
+      type: "entry",
+      mode: "edit",
+      release: r,
+      data: {
+        id: e.id,
+        itemOrder: e.itemOrder,
+        classification: e.classification,
+        category: e.category ?? "",
+        observation: e.observation,
+      },
+    });
+
+  const closeModal = () => {
+    // fechar o modal durante o envio o cancela
+    upload.cancel();
+    setModal({ open: false });
+    setFieldErrors({});
+  };
+
+  function confirmDelete(
+    title: string,
+    message: string,
+    action: () => Promise<void>,
+    afterDelete?: () => void
+  ) {
+    const onConfirm = async () => {
+      await action();
+      afterDelete?.();
+    };
+    setConfirm({ open: true, title, message, onConfirm, busy: false });
+  }
+  async function doConfirmedDelete() {
+    if (!confirm.open) return;
+    setConfirm((prev) => ({ ...(prev as any), busy: true }));
+    try {
+      await confirm.onConfirm();
+    } catch (err) {
+      console.error("DELETE error:", err);
+      toast.error(errorMessage(err, "Falha ao excluir."));
+    } finally {
+      setConfirm({ open: false } as any);
+    }
+  }
+  const askDeleteLink = (r: Release, l: ReleaseLink) =>
+    confirmDelete(
+      "Excluir Firmware",
+      `Confirma excluir o link "${l.description}" da release #${r.id}?`,
+      async () => {
+        await releasesCache.updateWith(r.id, (fresh) => ({
+          ...fresh,
+          links: (fresh.links ?? []).filter((x) => !sameLink(x, l)),
+        }));
+      }
+    );
+
+  const askDeleteRelease = (r: Release) =>
+    confirmDelete(
+      "Excluir Release",
+      `Confirma excluir a release #${r.id} (${r.version})? Esta ação é irreversível.`,
+      async () => {
+        await releasesCache.remove(r.id);
+      },
+      onReleaseDeleted
+        ? () => {
+            closeModal();
+            onReleaseDeleted(r);
+          }
+        : undefined
+    );
+
+  const askDeleteModule = (r: Release, m: ReleaseModule) =>
+    confirmDelete(
+      "Excluir Módulo",
+      `Confirma excluir o módulo "${m.module}" da release #${r.id}?`,
+      async () => {
+        await releasesCache.updateWith(r.id, (fresh) => ({
+          ...fresh,
+          modules: (fresh.modules ?? []).filter((x) => x.id !== m.id),
+        }));
+      }
+    );
+
+  const askDeleteEntry = (r: Release, e: ReleaseEntry) =>
+    confirmDelete(
+      "Excluir Registro",
+      `Confirma excluir o registro #${e.itemOrder} da release #${r.id}?`,
+      async () => {
+        await releasesCache.updateWith(r.id, (fresh) => {
+          const ents = (fresh.entries ?? []).filter((x) => x.id !== e.id);
+          const reindexed = ents.map((x, i) => ({ ...x, itemOrder: i + 1 }));
+          return { ...fresh, entries: reindexed };
+        });
+      }
+    );
+
+  async function saveLink() {
+    if (!modal.open || modal.type !== "link") return;
+    setSaving(true);
+    try {
+      const rId = modal.release.id;
+      const draft = modal.data as LinkDraft;
+
+      // Validação quando NÃO há arquivo (URL obrigatória)
+      const isUrl = (u?: string) => !!u && /^https?:\/\/\S+/i.test(u);
+      if (!draft._file) {
+        if (
+          modal.mode === "add" &&
+          (!draft.module || !draft.description || !isUrl(draft.url))
+        ) {
+          toast.error(
+            "Preencha Módulo, Descrição e uma URL válida (http/https)."
+          );
+          setSaving(false);
+          return;
+        }
+        // fluxo JSON puro (igual ao seu)
+        await releasesCache.updateWith(rId, (fresh) => {
+          const links = [...(fresh.links ?? [])];
+          if (modal.mode === "add") {
+            links.push({
+              id: 0 as any,
+              module: draft.module ?? "",
+              description: draft.description ?? "",
+              url: draft.url ?? "",
+            });
+          } else {
+            for (let i = 0; i < links.length; i++) {
+              if (links[i].id === draft.id) {
+                links[i] = {
+                  ...links[i],
+                  module: draft.module ?? links[i].module,
+                  description: draft.description ?? links[i].description,
+                  url: draft.url ?? links[i].url,
+                };
+                break;
+              }
+            }
+          }
+          return { ...fresh, links };
+        });
+        closeModal();
+        return;
+      }
+
+      // === Fluxo MULTIPART (com arquivo) ===
+
+      // 1) JSON para o backend: removemos o link sendo editado (se "edit"),
+      //    ou mantemos como está (se "add" sem URL) para o upload criar o novo link.
+      const nextJsonBase = (current: Release): Release => {
+        if (modal.mode === "edit") {
+          return {
+            ...current,
+            links: (current.links ?? []).filter((x) => x.id !== draft.id),
+          };
+        } else {
+          // add: não incluímos o novo link no JSON; ele virá do upload
+          return current;
+        }
+      };
+
+      // 2) Monta o upload
+      const fileError = validateFirmwareFile(draft._file);
+      if (fileError) {
+        setFieldErrors({ _file: fileError });
+        return;
+      }
+      const firmware = {
+        file: draft._file,
+        module: (draft.module || "").trim() || "default",
+        description: (draft.description || "").trim() || "Firmware",
+      };
+
+      // 3) Diretório (use o que você já usa no Postman; pode vir de UI)
+      let dir = (draft._dir || "").trim();
+
+      if (!dir || modal.mode === "edit") {
+        const category = (modal.release.productCategory || "").trim();
+        const name = (modal.release.productName || "").trim();
+        dir = `${category}/${name}`;
+      }
+      await upload.run((opts) =>
+        releasesCache.updateWithFiles(rId, nextJsonBase, [firmware], dir, opts)
+      );
+
+      closeModal();
+    } catch (err) {
+      if (isApiError(err) && err.kind === "cancelada") {
+        toast.info("Envio cancelado.");
+        return;
+      }
+      reportSaveError(
+        "PUT multipart /releases",
+        err,
+        "Falha ao enviar arquivo."
+      );
+      if (isApiError(err) && err.kind === "muito-grande") {
+        setFieldErrors((prev) => ({
+          ...prev,
+          _file: "Arquivo maior que o permitido pelo servidor.",
+        }));
+      }
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveRelease() {
+    if (!modal.open || modal.type !== "release") return;
+    setSaving(true);
+    try {
+      await releasesCache.update(
+        modal.release.id,
+        modal.data as Partial<Release>
+      );
+      closeModal();
+    } catch (err) {
+      reportSaveError("PUT /releases", err, "Falha ao salvar release.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveModule() {
+    if (!modal.open || modal.type !== "module") return;
+    setSaving(true);
+    try {
+      const rId = modal.release.id;
+      const d = modal.data as Partial<ReleaseModule>;
+      await releasesCache.updateWith(rId, (fresh) => {
+        const mods = [...(fresh.modules ?? [])];
+        if (modal.mode === "add") {
+          mods.push({
+            id: 0 as any,
+            module: d.module ?? "",
+            version: d.version ?? "",
+            updated: !!d.updated,
+          });
+        } else {
+          for (let i = 0; i < mods.length; i++) {
+            if (mods[i].id === d.id) {
+              mods[i] = {
+                ...mods[i],
+                module: d.module ?? mods[i].module,
+                version: d.version ?? mods[i].version,
+                updated:
+                  typeof d.updated === "boolean" ? d.updated : mods[i].updated,
+              };
+              break;
+            }
+          }
+        }
+        return { ...fresh, modules: mods };
+      });
+      closeModal();
+    } catch (err) {
+      reportSaveError("PUT /releases (módulo)", err, "Falha ao salvar módulo.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function saveEntry() {
+    if (!modal.open || modal.type !== "entry") return;
+    setSaving(true);
+    try {
+      const rId = modal.release.id;
+      const d = modal.data as Partial<ReleaseEntry>;
+      await releasesCache.updateWith(rId, (fresh) => {
+        const ents = [...(fresh.entries ?? [])];
+        if (modal.mode === "add") {
+          ents.push({
+            id: 0 as any,
+            itemOrder: d.itemOrder ?? ents.length + 1,
+            classification: d.classification ?? "",
+            observation: d.observation ?? "",
+          });
+        } else {
+          for (let i = 0; i < ents.length; i++) {
+            if (ents[i].id === d.id) {
+              ents[i] = {
+                ...ents[i],
+                itemOrder:
+                  typeof d.itemOrder === "number"
+                    ? d.itemOrder
+                    : ents[i].itemOrder,
+                classification: d.classification ?? ents[i].classification,
+                observation: d.observation ?? ents[i].observation,
+              };
+              break;
+            }
+          }
+        }
+        return { ...fresh, entries: ents };
+      });
+      closeModal();
+    } catch (err) {
+      reportSaveError(
+        "PUT /releases (registro)",
+        err,
+        "Falha ao salvar registro."
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const modalProps: EditModalProps = {
+    modal,
+    setModal,
+    saving,
+    onClose: closeModal,
+    saveRelease,
+    saveModule,
+    saveEntry,
+    saveLink,
+    askDeleteLink,
+    askDeleteRelease,
+    askDeleteModule,
+    askDeleteEntry,
+    canDelete: can("release:delete"),
+    canPublish: can("release:publish"),
+    canUpload: can("firmware:upload"),
+    fieldErrors,
+    clearFieldErrors,
+    setFieldError: (field, message) =>
+      setFieldErrors((prev) => ({ ...prev, [field]: message })),
+    uploadProgress: upload.progress,
+    cancelUpload: upload.cancel,
+  };
+
+  const confirmProps: ConfirmPortalProps = {
+    confirm,
+    setConfirm,
+    doConfirmedDelete,
+  };
+
+  return {
+    openReleaseEdit,
+    openModuleAdd,
+    openModuleEdit,
+    openEntryAdd,
+    openEntryEdit,
+    openLinkAdd,
+    openLinkEdit,
+    askDeleteRelease,
+    askDeleteModule,
+    askDeleteEntry,
+    askDeleteLink,
+    modalProps,
+    confirmProps,
+  };
+}
+
+export type ReleaseEditor = ReturnType<typeof useReleaseEditor>;
@@ -0,0 +1,21 @@
+// src/hooks/useReleases.ts
+import type { Release } from "../services/models";
+import { releasesApi } from "../services/releasesApi";
+import {
+  fetchRelease,
+  RELEASES_KEY,
+  releaseKey,
+} from "../services/releasesCache";
+import { useQuery } from "./useQuery";
+
+/** `enabled` false não busca nem acompanha a lista (ex.: paleta fechada). */
+export function useReleases(enabled = true) {
+  return useQuery<Release[]>(enabled ? RELEASES_KEY : null, releasesApi.list);
+}
+
+/** `id` null (ex.: parâmetro inválido na URL) não faz requisição. */
+export function useRelease(id: number | null) {
+  return useQuery<Release>(id === null ? null : releaseKey(id), () =>
+    fetchRelease(id ?? 0)
+  );
+}
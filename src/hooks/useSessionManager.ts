@@ -0,0 +1,215 @@
+// src/hooks/useSessionManager.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
+import { statusOf, toApiError } from "../services/apiError";
+import { isOnline } from "../services/network";
+
+// Renova o token quando faltar este tempo para o exp do JWT
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Tempo sem interação até a sessão ser encerrada
+const IDLE_TIMEOUT_MS = 15 * 60 * 1000;
+// Antecedência com que o aviso de expiração é exibido
+const WARNING_MS = 60 * 1000;
+// Intervalo entre tentativas de renovação que falharam por rede/servidor
+const REFRESH_RETRY_MS = 5 * 1000;
+
+// Última interação compartilhada entre abas, para que uma aba ociosa
+// não derrube a sessão enquanto o usuário trabalha em outra
+const LAST_ACTIVITY_KEY = "last_activity";
+const ACTIVITY_WRITE_INTERVAL_MS = 5 * 1000;
+
+function shareActivity(at: number) {
+  localStorage.setItem(LAST_ACTIVITY_KEY, String(at));
+}
+
+function sharedActivity() {
+  return Number(localStorage.getItem(LAST_ACTIVITY_KEY)) || 0;
+}
+
+const ACTIVITY_EVENTS = [
+  "mousedown",
+  "mousemove",
+  "keydown",
+  "scroll",
+  "touchstart",
+  "wheel",
+] as const;
+
+// Refresh recusado pelo servidor: a sessão acabou de fato
+function refreshRejected(err: unknown) {
+  const status = statusOf(toApiError(err));
+  return status === 401 || status === 403;
+}
+
+type SessionManagerOptions = {
+  enabled: boolean;
+  /** exp do token atual em ms (0 se desconhecido), vindo do authStore. */
+  expiresAt: number;
+  refresh: () => Promise<unknown>;
+  onExpire: () => void;
+};
+
+export type SessionState = {
+  warningOpen: boolean;
+  secondsLeft: number;
+  extending: boolean;
+  extend: () => Promise<void>;
+};
+
+export function useSessionManager({
+  enabled,
+  expiresAt,
+  refresh,
+  onExpire,
+}: SessionManagerOptions): SessionState {
+  const [warningOpen, setWarningOpen] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [extending, setExtending] = useState(false);
+
+  const lastActivity = useRef(Date.now());
+  const lastShared = useRef(0);
+  const warningRef = useRef(false);
+  const warningSince = useRef(0);
+  const refreshingRef = useRef(false);
+  const refreshFailedAt = useRef(0);
+  const onExpireRef = useRef(onExpire);
+  // lido a cada tique sem reiniciar o relógio quando o token é renovado
+  const expiresAtRef = useRef(expiresAt);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    expiresAtRef.current = expiresAt;
+  }, [expiresAt]);
+
+  const closeWarning = useCallback(() => {
+    warningRef.current = false;
+    setWarningOpen(false);
+  }, []);
+
+  const expire = useCallback(() => {
+    closeWarning();
+    onExpireRef.current();
+  }, [closeWarning]);
+
+  // Só encerra se o servidor recusou ou o token já venceu; queda de rede com
+  // token ainda válido mantém a sessão e a renovação é tentada de novo
+  const mustExpire = useCallback(
+    (err: unknown) =>
+      refreshRejected(err) ||
+      (expiresAtRef.current > 0 && Date.now() >= expiresAtRef.current),
+    []
+  );
+
+  const silentRefresh = useCallback(async () => {
+    if (refreshingRef.current) return;
+    refreshingRef.current = true;
+    try {
+      await refresh();
+      refreshFailedAt.current = 0;
+    } catch (err) {
+      console.error("POST /auth/refresh error:", err);
+      if (mustExpire(err)) expire();
+      else refreshFailedAt.current = Date.now();
+    } finally {
+      refreshingRef.current = false;
+    }
+  }, [expire, mustExpire, refresh]);
+
+  // Atividade do usuário (ignorada enquanto o aviso está aberto,
+  // para que só o botão "Continuar conectado" estenda a sessão)
+  useEffect(() => {
+    if (!enabled) return;
+    lastActivity.current = Date.now();
+    shareActivity(lastActivity.current);
+    const onActivity = () => {
+      if (warningRef.current) return;
+      const now = Date.now();
+      lastActivity.current = now;
+      if (now - lastShared.current >= ACTIVITY_WRITE_INTERVAL_MS) {
+        lastShared.current = now;
+        shareActivity(now);
+      }
+    };
+    ACTIVITY_EVENTS.forEach((ev) =>
+      window.addEventListener(ev, onActivity, { passive: true })
+    );
+    return () =>
+      ACTIVITY_EVENTS.forEach((ev) =>
+        window.removeEventListener(ev, onActivity)
+      );
+  }, [enabled]);
+
+  // Relógio da sessão: renovação proativa, aviso e expiração
+  useEffect(() => {
+    if (!enabled) {
+      closeWarning();
+      return;
+    }
+
+    const tick = () => {
+      const now = Date.now();
+      const expMs = expiresAtRef.current;
+      const shared = sharedActivity();
+      if (shared > lastActivity.current) {
+        lastActivity.current = shared;
+        // usuário interagiu ou estendeu a sessão em outra aba
+        if (warningRef.current && shared > warningSince.current) closeWarning();
+      }
+      const idleDeadline = lastActivity.current + IDLE_TIMEOUT_MS;
+
+      if (warningRef.current) {
+        // Token pode vencer antes do prazo de inatividade
+        const deadline = expMs ? Math.min(idleDeadline, expMs) : idleDeadline;
+        const left = Math.ceil((deadline - now) / 1000);
+        if (left <= 0) expire();
+        else setSecondsLeft(left);
+        return;
+      }
+
+      if (now >= idleDeadline - WARNING_MS) {
+        warningRef.current = true;
+        warningSince.current = now;
+        setSecondsLeft(Math.max(1, Math.ceil((idleDeadline - now) / 1000)));
+        setWarningOpen(true);
+        return;
+      }
+
+      // offline, espera a conexão voltar; após falha, espera um pouco
+      if (
+        expMs &&
+        now >= expMs - REFRESH_MARGIN_MS &&
+        isOnline() &&
+        now - refreshFailedAt.current >= REFRESH_RETRY_MS
+      )
+        void silentRefresh();
+    };
+
+    tick();
+    const id = window.setInterval(tick, 1000);
+    return () => window.clearInterval(id);
+  }, [enabled, closeWarning, expire, silentRefresh]);
+
+  const extend = useCallback(async () => {
+    setExtending(true);
+    try {
+      await refresh();
+      lastActivity.current = Date.now();
+      shareActivity(lastActivity.current);
+      closeWarning();
+    } catch (err) {
+      console.error("POST /auth/refresh error:", err);
+      if (mustExpire(err)) expire();
+      else
+        toast.error(
+          "Não foi possível renovar a sessão. Verifique sua conexão e tente novamente."
+        );
+    } finally {
+      setExtending(false);
+    }
+  }, [closeWarning, expire, mustExpire, refresh]);
+
+  return { warningOpen, secondsLeft, extending, extend };
+}
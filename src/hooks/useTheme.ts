@@ -0,0 +1,28 @@
+// src/hooks/useTheme.ts
+// Tema claro/escuro compartilhado entre o cabeçalho e a paleta de comandos.
+import { useSyncExternalStore } from "react";
+
+let isDark = false;
+const listeners = new Set<() => void>();
+
+function setDark(next: boolean) {
+  isDark = next;
+  document.documentElement.classList.toggle("dark", next);
+  listeners.forEach((l) => l());
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function toggleTheme() {
+  setDark(!isDark);
+}
+
+export function useTheme() {
+  const dark = useSyncExternalStore(subscribe, () => isDark);
+  return { isDark: dark, setDark, toggleTheme };
+}
@@ -0,0 +1,37 @@
+// src/hooks/useUpload.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { UploadOptions, UploadProgress } from "../services/uploads";
+
+/**
+ * Um envio por vez com progresso e cancelamento. O envio em andamento é
+ * abortado se o componente sair da tela.
+ */
+export function useUpload() {
+  const [progress, setProgress] = useState<UploadProgress | null>(null);
+  const controller = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controller.current?.abort(), []);
+
+  const run = useCallback(
+    async <T>(task: (opts: UploadOptions) => Promise<T>): Promise<T> => {
+      controller.current?.abort();
+      const c = new AbortController();
+      controller.current = c;
+      try {
+        return await task({ signal: c.signal, onProgress: setProgress });
+      } finally {
+        if (controller.current === c) {
+          controller.current = null;
+          setProgress(null);
+        }
+      }
+    },
+    []
+  );
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+
+  return { progress, run, cancel };
+}
+
+export type Upload = ReturnType<typeof useUpload>;
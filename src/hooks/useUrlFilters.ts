@@ -0,0 +1,63 @@
+// src/hooks/useUrlFilters.ts
+import { useCallback, useMemo, useRef } from "react";
+import { useSearchParams } from "react-router-dom";
+
+// Alterações seguidas (ex.: digitação na busca) dentro deste intervalo
+// viram uma única entrada no histórico
+const COALESCE_MS = 1000;
+
+type SetFiltersOptions = {
+  /** Agrupa com a alteração anterior, se recente, em vez de criar outra entrada. */
+  coalesce?: boolean;
+};
+
+/**
+ * Filtros espelhados na query string. Valores iguais ao padrão são omitidos
+ * da URL; cada alteração gera uma entrada no histórico (voltar/avançar).
+ */
+export function useUrlFilters<K extends string>(defaults: Record<K, string>) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const lastCoalesced = useRef(0);
+  const defaultsRef = useRef(defaults);
+
+  const filters = useMemo(() => {
+    const out = { ...defaultsRef.current };
+    (Object.keys(out) as K[]).forEach((key) => {
+      const v = searchParams.get(key);
+      if (v !== null) out[key] = v;
+    });
+    return out;
+  }, [searchParams]);
+
+  const setFilters = useCallback(
+    (patch: Partial<Record<K, string>>, opts: SetFiltersOptions = {}) => {
+      const now = Date.now();
+      const replace =
+        !!opts.coalesce && now - lastCoalesced.current < COALESCE_MS;
+      lastCoalesced.current = opts.coalesce ? now : 0;
+
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          (Object.keys(patch) as K[]).forEach((key) => {
+            const v = patch[key];
+            if (v === undefined) return;
+            if (v === "" || v === defaultsRef.current[key]) next.delete(key);
+            else next.set(key, v);
+          });
+          return next;
+        },
+        { replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return [filters, setFilters] as const;
+}
+
+/** Página da URL como número válido (>= 1). */
+export function parsePage(value: string): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 1 ? n : 1;
+}
@@ -5,14 +5,24 @@ import '@fontsource/roboto/400.css'
 import '@fontsource/roboto/500.css'
 import '@fontsource/roboto/700.css'
 import { BrowserRouter } from 'react-router-dom'
+import AuthProvider from './contexts/AuthProvider.tsx'
+import { loadRuntimeConfig } from './services/config.ts'
 
-
-
-
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-     <BrowserRouter> 
-         <App />
-     </BrowserRouter>
-  </StrictMode>,
-)
+// A URL da API pode vir do /config.json; nenhuma requisição sai antes disso
+loadRuntimeConfig()
+  .then(async (config) => {
+    if (!config.mockApi) return
+    const { installMockBackend } = await import('./mocks')
+    installMockBackend()
+  })
+  .finally(() => {
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        <BrowserRouter>
+          <AuthProvider>
+            <App />
+          </AuthProvider>
+        </BrowserRouter>
+      </StrictMode>,
+    )
+  })
@@ -0,0 +1,150 @@
+// src/mocks/adapter.ts
+// Adapter do axios que entrega as requisições ao backend simulado em vez da rede.
+import {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+import { getConfig } from "../services/config";
+import { handle } from "./handlers";
+
+// latência para que estados de carregamento apareçam como na API real
+const LATENCY_MS = 250;
+// velocidade simulada de envio, para o progresso de upload ser visível
+const UPLOAD_BYTES_PER_SECOND = 20 * 1024 * 1024;
+const PROGRESS_TICK_MS = 100;
+
+const statusText: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  204: "No Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  409: "Conflict",
+  410: "Gone",
+  413: "Payload Too Large",
+  503: "Service Unavailable",
+};
+
+/** Caminho relativo à URL base da API (ex.: "/releases/10"). */
+function apiPath(config: InternalAxiosRequestConfig): URL {
+  const raw = config.url ?? "";
+  // o refresh usa a URL completa; as demais chamadas já são relativas
+  const base = getConfig().apiBaseUrl;
+  const rel = raw.startsWith(base) ? raw.slice(base.length) : raw;
+  return new URL(rel.startsWith("/") ? rel : `/${rel}`, "http://mock");
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== "string") return data ?? null;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
+
+function delay(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal?.aborted)
+      return reject(new DOMException("Aborted", "AbortError"));
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(new DOMException("Aborted", "AbortError"));
+    });
+  });
+}
+
+function bodySize(data: unknown): number {
+  if (data instanceof Blob) return data.size;
+  if (!(data instanceof FormData)) return 0;
+  return [...data.values()].reduce<number>(
+    (sum, v) => sum + (v instanceof Blob ? v.size : String(v).length),
+    0
+  );
+}
+
+/**
+ * Emite `onUploadProgress` para corpos FormData e binários (partes de envio),
+ * como o XHR faria.
+ */
+async function simulateUpload(
+  config: InternalAxiosRequestConfig,
+  signal?: AbortSignal
+) {
+  const onProgress = config.onUploadProgress;
+  const total = bodySize(config.data);
+  if (!onProgress || total === 0) return;
+  const step = (UPLOAD_BYTES_PER_SECOND * PROGRESS_TICK_MS) / 1000;
+  for (let loaded = 0; loaded < total;) {
+    await delay(PROGRESS_TICK_MS, signal);
+    loaded = Math.min(total, loaded + step);
+    onProgress({
+      loaded,
+      total,
+      progress: loaded / total,
+      bytes: step,
+      lengthComputable: true,
+      upload: true,
+    });
+  }
+}
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  const url = apiPath(config);
+  Object.entries(config.params ?? {}).forEach(([k, v]) => {
+    if (v !== undefined && v !== null) url.searchParams.set(k, String(v));
+  });
+  const headers = AxiosHeaders.from(config.headers).toJSON() as Record<
+    string,
+    string
+  >;
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(headers).map(([k, v]) => [k.toLowerCase(), String(v)])
+  );
+
+  try {
+    const signal = config.signal as AbortSignal | undefined;
+    await simulateUpload(config, signal);
+    await delay(LATENCY_MS, signal);
+  } catch {
+    throw new AxiosError("canceled", AxiosError.ERR_CANCELED, config);
+  }
+
+  const res = await handle({
+    method: (config.method ?? "get").toUpperCase(),
+    path: url.pathname,
+    query: url.searchParams,
+    body: parseBody(config.data),
+    headers: lowerHeaders,
+  });
+
+  const response: AxiosResponse = {
+    data: res.data ?? "",
+    status: res.status,
+    statusText: statusText[res.status] ?? "",
+    headers: new AxiosHeaders({ "content-type": "application/json" }),
+    config,
+    request: { mock: true },
+  };
+
+  const valid = config.validateStatus
+    ? config.validateStatus(res.status)
+    : res.status >= 200 && res.status < 300;
+  if (valid) return response;
+
+  throw new AxiosError(
+    `Request failed with status code ${res.status}`,
+    res.status >= 500
+      ? AxiosError.ERR_BAD_RESPONSE
+      : AxiosError.ERR_BAD_REQUEST,
+    config,
+    response.request,
+    response
+  );
+};
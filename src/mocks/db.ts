@@ -0,0 +1,115 @@
+// src/mocks/db.ts
+// Estado do backend simulado, guardado inteiro num único registro do
+// IndexedDB para sobreviver a recargas. Os dados são pequenos; cada requisição
+// lê, altera e grava de volta.
+import type { Approval, Release, User } from "../services/models";
+import { seedState } from "./seed";
+
+export type MockUser = User & { password: string };
+
+export type MockKeyRequest = {
+  nome: string;
+  email: string;
+  cpf: string;
+  chave: string;
+  status: "emitida" | "pendente" | "recusada";
+  motivo?: string;
+  usada: boolean;
+  expiraEm: string;
+  atualizadoEm: string;
+};
+
+export type MockResetToken = {
+  token: string;
+  userId: number;
+  usado: boolean;
+  expiraEm: string;
+};
+
+/** Envio em partes; só os índices recebidos são guardados, não os bytes. */
+export type MockUpload = {
+  id: string;
+  fileName: string;
+  size: number;
+  dir: string;
+  chunkSize: number;
+  received: number[];
+  url?: string;
+  userId: number;
+  createdAt: string;
+};
+
+export type MockState = {
+  users: MockUser[];
+  releases: Release[];
+  approvals: Approval[];
+  keyRequests: MockKeyRequest[];
+  resetTokens: MockResetToken[];
+  uploads: MockUpload[];
+  /** Usuário do "cookie" de refresh; null depois de expirar a sessão. */
+  sessionUserId: number | null;
+  nextId: number;
+};
+
+const DB_NAME = "changelog-mock";
+const STORE = "state";
+const KEY = "current";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  return dbPromise;
+}
+
+function run<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(STORE, mode);
+        const req = action(tx.objectStore(STORE));
+        tx.oncomplete = () => resolve(req.result as T);
+        tx.onerror = () => reject(tx.error);
+      })
+  );
+}
+
+const read = () => run<MockState | undefined>("readonly", (s) => s.get(KEY));
+const write = (state: MockState) =>
+  run<IDBValidKey>("readwrite", (s) => s.put(state, KEY));
+
+// requisições paralelas não podem intercalar leitura e gravação
+let queue: Promise<unknown> = Promise.resolve();
+
+/** Executa `fn` sobre o estado atual e persiste as alterações feitas nele. */
+export function transact<T>(fn: (state: MockState) => T): Promise<T> {
+  const next = queue.then(async () => {
+    const state = (await read()) ?? seedState();
+    // estados gravados antes dos envios em partes
+    state.uploads ??= [];
+    const result = fn(state);
+    await write(state);
+    return result;
+  });
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+/** Volta aos dados iniciais (útil entre cenários de teste). */
+export function resetState(): Promise<void> {
+  const next = queue.then(() => write(seedState()).then(() => undefined));
+  queue = next.catch(() => undefined);
+  return next;
+}
+
+export function nextId(state: MockState): number {
+  return state.nextId++;
+}
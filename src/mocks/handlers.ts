@@ -0,0 +1,775 @@
+// src/mocks/handlers.ts
+// Rotas do backend simulado. Espelham o contrato usado pelos clientes em
+// services/*Api.ts, incluindo os códigos de erro que as telas tratam.
+import type {
+  Approval,
+  Release,
+  ReleaseInput,
+  ReleaseLink,
+  User,
+} from "../services/models";
+import {
+  decodeJwtClaims,
+  isExpired,
+  type JwtClaims,
+  type Role,
+} from "../utils/jwt";
+import { ADMIN_ROLES, EDITOR_ROLES } from "../utils/permissions";
+import {
+  nextId,
+  transact,
+  type MockState,
+  type MockUpload,
+  type MockUser,
+} from "./db";
+
+export type MockRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+  headers: Record<string, string>;
+};
+
+export type MockResponse = { status: number; data?: unknown };
+
+export class MockHttpError extends Error {
+  readonly status: number;
+  /** Erros por campo, no formato `{ fields: { campo: mensagem } }`. */
+  readonly fields?: Record<string, string>;
+  constructor(
+    status: number,
+    message: string,
+    fields?: Record<string, string>
+  ) {
+    super(message);
+    this.status = status;
+    this.fields = fields;
+  }
+}
+
+type Context = {
+  state: MockState;
+  params: Record<string, string>;
+  req: MockRequest;
+  /** Usuário do token; null nas rotas públicas. */
+  user: MockUser | null;
+};
+
+type Route = {
+  method: string;
+  pattern: string;
+  /** undefined → pública; [] → qualquer usuário autenticado. */
+  roles?: Role[];
+  handle: (ctx: Context) => MockResponse;
+};
+
+const TOKEN_TTL_S = 15 * 60;
+const KEY_TTL_DAYS = 7;
+const FILES = "https://arquivos.mock.local";
+const UPLOAD_MAX_BYTES = 1024 * 1024 * 1024;
+// falhas ocasionais nas partes, para as novas tentativas serem exercitadas
+const CHUNK_FAILURE_RATE = 0.03;
+
+// ---- utilitários ----
+
+const ok = (data?: unknown): MockResponse => ({ status: 200, data });
+const created = (data?: unknown): MockResponse => ({ status: 201, data });
+const noContent = (): MockResponse => ({ status: 204 });
+
+const now = () => new Date().toISOString();
+
+function base64Url(text: string) {
+  const bytes = new TextEncoder().encode(text);
+  const bin = Array.from(bytes, (b) => String.fromCharCode(b)).join("");
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/** JWT com o formato do backend; a assinatura não é verificada no cliente. */
+function issueToken(user: MockUser) {
+  const iat = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+  const payload = base64Url(
+    JSON.stringify({
+      sub: String(user.id),
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      iat,
+      exp: iat + TOKEN_TTL_S,
+    })
+  );
+  return `${header}.${payload}.mock-signature`;
+}
+
+function randomToken() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (b) =>
+    b.toString(16).padStart(2, "0")
+  ).join("");
+}
+
+function toPublicUser(user: MockUser): User {
+  const { id, name, email, role, status, createdAt } = user;
+  return { id, name, email, role, status, createdAt };
+}
+
+function field(body: unknown, name: string): string {
+  if (body instanceof FormData) {
+    const v = body.get(name);
+    return typeof v === "string" ? v.trim() : "";
+  }
+  const v = (body as Record<string, unknown> | null)?.[name];
+  return typeof v === "string" ? v.trim() : "";
+}
+
+function required(body: unknown, ...names: string[]) {
+  const missing = names.filter((n) => !field(body, n));
+  if (missing.length)
+    throw new MockHttpError(
+      400,
+      `Campos obrigatórios: ${missing.join(", ")}`,
+      Object.fromEntries(missing.map((n) => [n, "Campo obrigatório."]))
+    );
+}
+
+function me(ctx: Context): MockUser {
+  if (!ctx.user) throw new MockHttpError(401, "Token ausente ou expirado");
+  return ctx.user;
+}
+
+function findUser(state: MockState, id: string | number) {
+  const user = state.users.find((u) => u.id === Number(id));
+  if (!user) throw new MockHttpError(404, "Usuário não encontrado");
+  return user;
+}
+
+function findRelease(state: MockState, id: string) {
+  const release = state.releases.find((r) => r.id === Number(id));
+  if (!release) throw new MockHttpError(404, "Release não encontrada");
+  return release;
+}
+
+function findApproval(state: MockState, id: string) {
+  const approval = state.approvals.find((a) => a.id === Number(id));
+  if (!approval) throw new MockHttpError(404, "Homologação não encontrada");
+  return approval;
+}
+
+// ---- releases ----
+
+type ReleaseBody = { input: ReleaseInput; files: File[]; links: ReleaseLink[] };
+
+/** JSON puro ou multipart: data(JSON) + dir + files[] + linkModule[]/linkDescription[]. */
+function readReleaseBody(state: MockState, body: unknown): ReleaseBody {
+  let input: ReleaseInput;
+  const uploaded: ReleaseLink[] = [];
+  const files: File[] = [];
+
+  if (body instanceof FormData) {
+    try {
+      input = JSON.parse(String(body.get("data") ?? ""));
+    } catch {
+      throw new MockHttpError(400, "Campo data deve conter o JSON da release");
+    }
+    const dir = field(body, "dir") || "firmwares";
+    const modules = body.getAll("linkModule[]").map(String);
+    const descriptions = body.getAll("linkDescription[]").map(String);
+    body.getAll("files[]").forEach((f, i) => {
+      if (!(f instanceof File)) return;
+      files.push(f);
+      uploaded.push({
+        id: nextId(state),
+        module: modules[i] || "default",
+        description: descriptions[i] || "Firmware",
+        url: `${FILES}/${encodeURI(dir)}/${encodeURIComponent(f.name)}`,
+      });
+    });
+  } else {
+    input = body as ReleaseInput;
+  }
+
+  const missing = (
+    ["version", "productCategory", "productName"] as const
+  ).filter((n) => !input?.[n]);
+  if (missing.length)
+    throw new MockHttpError(
+      400,
+      `Campos obrigatórios: ${missing.join(", ")}`,
+      Object.fromEntries(missing.map((n) => [n, "Campo obrigatório."]))
+    );
+
+  const links = (input.links ?? []).map((l) => ({ ...l, id: nextId(state) }));
+  return { input, files, links: [...links, ...uploaded] };
+}
+
+function buildRelease(
+  state: MockState,
+  { input, links }: ReleaseBody,
+  base?: Release
+): Release {
+  return {
+    id: base?.id ?? nextId(state),
+    version: input.version,
+    previousVersion: input.previousVersion ?? "",
+    ota: !!input.ota,
+    otaObs: input.otaObs ?? "",
+    releaseDate: input.releaseDate || now(),
+    importantNote: input.importantNote ?? "",
+    productCategory: input.productCategory,
+    productName: input.productName,
+    status: input.status || "revisao",
+    modules: (input.modules ?? []).map((m) => ({ ...m, id: nextId(state) })),
+    entries: (input.entries ?? []).map((e) => ({ ...e, id: nextId(state) })),
+    links,
+    createdAt: base?.createdAt ?? now(),
+    updatedAt: now(),
+  };
+}
+
+// ---- envios em partes ----
+
+function findUpload(state: MockState, id: string) {
+  const upload = state.uploads.find((u) => u.id === id);
+  if (!upload) throw new MockHttpError(404, "Envio não encontrado");
+  return upload;
+}
+
+const uploadSession = (u: MockUpload) => ({
+  uploadId: u.id,
+  chunkSize: u.chunkSize,
+  received: [...u.received].sort((a, b) => a - b),
+});
+
+const chunkCount = (u: MockUpload) => Math.ceil(u.size / u.chunkSize);
+
+// ---- homologações ----
+
+function applyApprovalForm(
+  state: MockState,
+  body: unknown,
+  ctx: Context,
+  base?: Approval
+): Approval {
+  const file = body instanceof FormData ? body.get("file") : null;
+  const date = field(body, "date");
+  return {
+    id: base?.id ?? nextId(state),
+    establishment: field(body, "establishment"),
+    productName: field(body, "productName"),
+    category: field(body, "category"),
+    description: field(body, "description"),
+    date: date ? new Date(date).toISOString() : (base?.date ?? now()),
+    fileUrl:
+      file instanceof File
+        ? `${FILES}/homologacoes/${encodeURIComponent(file.name)}`
+        : (base?.fileUrl ?? ""),
+    createdAt: base?.createdAt ?? now(),
+    updatedAt: now(),
+    createdBy: base
+      ? base.createdBy
+      : { id: me(ctx).id, name: me(ctx).name, role: me(ctx).role },
+  };
+}
+
+// ---- rotas ----
+
+const routes: Route[] = [
+  // autenticação
+  {
+    method: "POST",
+    pattern: "/auth/login",
+    handle: ({ state, req }) => {
+      const email = field(req.body, "email").toLowerCase();
+      const user = state.users.find((u) => u.email === email);
+      if (
+        !user ||
+        user.password !== (req.body as { password?: string }).password
+      )
+        throw new MockHttpError(401, "Credenciais inválidas");
+      if (user.status !== "ativo")
+        throw new MockHttpError(403, `Conta ${user.status}`);
+      state.sessionUserId = user.id;
+      return ok({ token: issueToken(user) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/auth/refresh",
+    handle: ({ state }) => {
+      const user = state.users.find((u) => u.id === state.sessionUserId);
+      if (!user || user.status !== "ativo") {
+        state.sessionUserId = null;
+        throw new MockHttpError(401, "Sessão expirada");
+      }
+      return ok({ token: issueToken(user) });
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/auth/change-password",
+    roles: [],
+    handle: (ctx) => {
+      const user = me(ctx);
+      const body = ctx.req.body as {
+        currentPassword?: string;
+        newPassword?: string;
+      };
+      if (body.currentPassword !== user.password)
+        throw new MockHttpError(401, "Senha atual incorreta");
+      if (!body.newPassword || body.newPassword.length < 6)
+        throw new MockHttpError(400, "Senha muito curta", {
+          newPassword: "A senha deve ter ao menos 6 caracteres.",
+        });
+      user.password = body.newPassword;
+      return noContent();
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/auth/forgot-password",
+    handle: ({ state, req }) => {
+      const email = field(req.body, "email").toLowerCase();
+      const user = state.users.find((u) => u.email === email);
+      // como o backend: responde igual exista ou não a conta
+      if (user) {
+        const token = randomToken();
+        state.resetTokens.push({
+          token,
+          userId: user.id,
+          usado: false,
+          expiraEm: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+        });
+        console.info(`[mock] link de redefinição: /redefinir-senha/${token}`);
+      }
+      return noContent();
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/auth/reset-password/:token",
+    handle: ({ state, params }) => {
+      const t = state.resetTokens.find((x) => x.token === params.token);
+      if (!t) throw new MockHttpError(404, "Link inválido");
+      if (t.usado) throw new MockHttpError(409, "Link já utilizado");
+      if (new Date(t.expiraEm) < new Date())
+        throw new MockHttpError(410, "Link expirado");
+      return noContent();
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/auth/reset-password",
+    handle: ({ state, req }) => {
+      const t = state.resetTokens.find(
+        (x) => x.token === field(req.body, "token")
+      );
+      if (!t) throw new MockHttpError(404, "Link inválido");
+      if (t.usado) throw new MockHttpError(409, "Link já utilizado");
+      if (new Date(t.expiraEm) < new Date())
+        throw new MockHttpError(410, "Link expirado");
+      findUser(state, t.userId).password = String(
+        (req.body as { password?: string }).password ?? ""
+      );
+      t.usado = true;
+      return noContent();
+    },
+  },
+
+  // usuários
+  {
+    method: "GET",
+    pattern: "/users",
+    roles: ADMIN_ROLES,
+    handle: ({ state }) => ok(state.users.map(toPublicUser)),
+  },
+  {
+    method: "POST",
+    pattern: "/users",
+    handle: ({ state, req }) => {
+      required(req.body, "name", "email", "password");
+      const email = field(req.body, "email").toLowerCase();
+      if (state.users.some((u) => u.email === email))
+        throw new MockHttpError(409, "E-mail já cadastrado", {
+          email: "E-mail já cadastrado.",
+        });
+
+      const chave = field(req.body, "chave");
+      const key = chave
+        ? state.keyRequests.find((k) => k.chave === chave)
+        : undefined;
+      if (chave && (!key || key.status !== "emitida"))
+        throw new MockHttpError(404, "Chave inválida", {
+          chave: "Chave de acesso inválida.",
+        });
+      if (key?.usada)
+        throw new MockHttpError(409, "Chave já utilizada", {
+          chave: "Esta chave de acesso já foi utilizada.",
+        });
+      if (key && new Date(key.expiraEm) < new Date())
+        throw new MockHttpError(410, "Chave expirada", {
+          chave: "Esta chave de acesso expirou.",
+        });
+      if (key && key.email !== email)
+        throw new MockHttpError(400, "A chave pertence a outro e-mail", {
+          email: "Use o e-mail para o qual a chave foi emitida.",
+        });
+
+      const user: MockUser = {
+        id: nextId(state),
+        name: field(req.body, "name"),
+        email,
+        password: String((req.body as { password?: string }).password),
+        role: "viewer",
+        // com chave a conta já nasce ativa; sem ela aguarda um administrador
+        status: key ? "ativo" : "pendente",
+        createdAt: now(),
+      };
+      if (key) key.usada = true;
+      state.users.push(user);
+      return created(toPublicUser(user));
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: "/users/me",
+    roles: [],
+    handle: (ctx) => {
+      const user = me(ctx);
+      required(ctx.req.body, "name");
+      user.name = field(ctx.req.body, "name");
+      return ok(toPublicUser(user));
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: "/users/:id",
+    roles: ADMIN_ROLES,
+    handle: ({ state, params, req }) => {
+      const target = findUser(state, params.id);
+      const patch = req.body as Partial<Pick<User, "role" | "status">>;
+      if (patch.role) target.role = patch.role;
+      if (patch.status) target.status = patch.status;
+      return ok(toPublicUser(target));
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/users/:id/reset-password",
+    roles: ADMIN_ROLES,
+    handle: ({ state, params }) => {
+      const target = findUser(state, params.id);
+      const token = randomToken();
+      state.resetTokens.push({
+        token,
+        userId: target.id,
+        usado: false,
+        expiraEm: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      });
+      console.info(`[mock] link de redefinição: /redefinir-senha/${token}`);
+      return noContent();
+    },
+  },
+
+  // chaves de acesso
+  {
+    method: "POST",
+    pattern: "/criar-chave",
+    handle: ({ state, req }) => {
+      required(req.body, "nome", "email", "cpf");
+      const email = field(req.body, "email").toLowerCase();
+      const chave = `MOCK-${randomToken().slice(0, 8).toUpperCase()}`;
+      state.keyRequests = state.keyRequests.filter((k) => k.email !== email);
+      state.keyRequests.push({
+        nome: field(req.body, "nome"),
+        email,
+        cpf: field(req.body, "cpf"),
+        chave,
+        status: "emitida",
+        usada: false,
+        expiraEm: new Date(
+          Date.now() + KEY_TTL_DAYS * 24 * 60 * 60 * 1000
+        ).toISOString(),
+        atualizadoEm: now(),
+      });
+      console.info(
+        `[mock] chave emitida para ${email}: /cadastro?chave=${chave}`
+      );
+      return created();
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/criar-chave/status",
+    handle: ({ state, req }) => {
+      const email = field(req.body, "email").toLowerCase();
+      const cpf = field(req.body, "cpf");
+      const key = state.keyRequests.find(
+        (k) => k.email === email && k.cpf === cpf
+      );
+      if (!key) throw new MockHttpError(404, "Solicitação não encontrada");
+      return ok({
+        status: key.status,
+        motivo: key.motivo ?? null,
+        atualizadoEm: key.atualizadoEm,
+      });
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/validar-chave/:chave",
+    handle: ({ state, params }) => {
+      const key = state.keyRequests.find((k) => k.chave === params.chave);
+      if (!key || key.status !== "emitida")
+        throw new MockHttpError(404, "Chave inválida");
+      if (key.usada) throw new MockHttpError(409, "Chave já utilizada");
+      if (new Date(key.expiraEm) < new Date())
+        throw new MockHttpError(410, "Chave expirada");
+      return ok({ email: key.email, nome: key.nome });
+    },
+  },
+
+  // releases
+  {
+    method: "GET",
+    pattern: "/releases",
+    roles: [],
+    handle: ({ state }) => ok(state.releases),
+  },
+  {
+    method: "GET",
+    pattern: "/releases/:id",
+    roles: [],
+    handle: ({ state, params }) => ok(findRelease(state, params.id)),
+  },
+  {
+    method: "POST",
+    pattern: "/releases",
+    roles: EDITOR_ROLES,
+    handle: ({ state, req }) => {
+      const release = buildRelease(state, readReleaseBody(state, req.body));
+      state.releases.push(release);
+      return created(release);
+    },
+  },
+  {
+    method: "PUT",
+    pattern: "/releases/:id",
+    roles: EDITOR_ROLES,
+    handle: ({ state, params, req }) => {
+      const base = findRelease(state, params.id);
+      const release = buildRelease(
+        state,
+        readReleaseBody(state, req.body),
+        base
+      );
+      state.releases = state.releases.map((r) =>
+        r.id === base.id ? release : r
+      );
+      return ok(release);
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/releases/:id",
+    roles: EDITOR_ROLES,
+    handle: ({ state, params }) => {
+      const base = findRelease(state, params.id);
+      state.releases = state.releases.filter((r) => r.id !== base.id);
+      return noContent();
+    },
+  },
+
+  // envios em partes
+  {
+    method: "POST",
+    pattern: "/uploads",
+    roles: EDITOR_ROLES,
+    handle: (ctx) => {
+      required(ctx.req.body, "fileName");
+      const body = ctx.req.body as Record<string, unknown>;
+      const size = Number(body.size);
+      const chunkSize = Number(body.chunkSize);
+      if (!Number.isInteger(size) || size <= 0)
+        throw new MockHttpError(400, "Tamanho inválido", {
+          size: "Informe o tamanho do arquivo em bytes.",
+        });
+      if (size > UPLOAD_MAX_BYTES)
+        throw new MockHttpError(413, "Arquivo acima do limite");
+      if (!Number.isInteger(chunkSize) || chunkSize < 1024 * 1024)
+        throw new MockHttpError(400, "Tamanho de parte inválido", {
+          chunkSize: "Partes devem ter pelo menos 1 MB.",
+        });
+      const upload: MockUpload = {
+        id: randomToken(),
+        fileName: field(body, "fileName"),
+        size,
+        dir: field(body, "dir") || "firmwares",
+        chunkSize,
+        received: [],
+        userId: me(ctx).id,
+        createdAt: now(),
+      };
+      ctx.state.uploads.push(upload);
+      return created(uploadSession(upload));
+    },
+  },
+  {
+    method: "GET",
+    pattern: "/uploads/:id",
+    roles: EDITOR_ROLES,
+    handle: ({ state, params }) =>
+      ok(uploadSession(findUpload(state, params.id))),
+  },
+  {
+    method: "PUT",
+    pattern: "/uploads/:id/chunks/:index",
+    roles: EDITOR_ROLES,
+    handle: ({ state, params, req }) => {
+      const upload = findUpload(state, params.id);
+      const index = Number(params.index);
+      if (!Number.isInteger(index) || index < 0 || index >= chunkCount(upload))
+        throw new MockHttpError(400, "Índice de parte inválido");
+      if (!(req.body instanceof Blob))
+        throw new MockHttpError(400, "Corpo da parte deve ser binário");
+      const expected = Math.min(
+        upload.chunkSize,
+        upload.size - index * upload.chunkSize
+      );
+      if (req.body.size !== expected)
+        throw new MockHttpError(
+          400,
+          `Parte ${index} deveria ter ${expected} bytes, veio ${req.body.size}`
+        );
+      if (Math.random() < CHUNK_FAILURE_RATE)
+        throw new MockHttpError(503, "Armazenamento indisponível");
+      if (!upload.received.includes(index)) upload.received.push(index);
+      return noContent();
+    },
+  },
+  {
+    method: "POST",
+    pattern: "/uploads/:id/complete",
+    roles: EDITOR_ROLES,
+    handle: ({ state, params }) => {
+      const upload = findUpload(state, params.id);
+      const missing = chunkCount(upload) - upload.received.length;
+      if (missing > 0)
+        throw new MockHttpError(409, `Faltam ${missing} partes do arquivo`);
+      upload.url ??= `${FILES}/${encodeURI(upload.dir)}/${encodeURIComponent(upload.fileName)}`;
+      return ok({ url: upload.url });
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/uploads/:id",
+    roles: EDITOR_ROLES,
+    handle: ({ state, params }) => {
+      const upload = findUpload(state, params.id);
+      state.uploads = state.uploads.filter((u) => u.id !== upload.id);
+      return noContent();
+    },
+  },
+
+  // homologações
+  {
+    method: "GET",
+    pattern: "/v1/approvals",
+    roles: [],
+    handle: ({ state }) => ok(state.approvals),
+  },
+  {
+    method: "POST",
+    pattern: "/v1",
+    roles: EDITOR_ROLES,
+    handle: (ctx) => {
+      required(ctx.req.body, "establishment", "productName", "category");
+      const approval = applyApprovalForm(ctx.state, ctx.req.body, ctx);
+      ctx.state.approvals.push(approval);
+      return created(approval);
+    },
+  },
+  {
+    method: "PUT",
+    pattern: "/v1/approvals/:id",
+    roles: EDITOR_ROLES,
+    handle: (ctx) => {
+      const base = findApproval(ctx.state, ctx.params.id);
+      const approval = applyApprovalForm(ctx.state, ctx.req.body, ctx, base);
+      ctx.state.approvals = ctx.state.approvals.map((a) =>
+        a.id === base.id ? approval : a
+      );
+      return ok(approval);
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: "/v1/approvals/:id",
+    roles: EDITOR_ROLES,
+    handle: ({ state, params }) => {
+      const base = findApproval(state, params.id);
+      state.approvals = state.approvals.filter((a) => a.id !== base.id);
+      return noContent();
+    },
+  },
+];
+
+function match(pattern: string, path: string): Record<string, string> | null {
+  const p = pattern.split("/");
+  const s = path.replace(/\/+$/, "").split("/");
+  if (p.length !== s.length) return null;
+  const params: Record<string, string> = {};
+  for (let i = 0; i < p.length; i++) {
+    if (p[i].startsWith(":")) params[p[i].slice(1)] = decodeURIComponent(s[i]);
+    else if (p[i] !== s[i]) return null;
+  }
+  return params;
+}
+
+function authenticate(state: MockState, req: MockRequest): MockUser {
+  const auth = req.headers["authorization"] ?? "";
+  const claims: JwtClaims | null = decodeJwtClaims(
+    auth.replace(/^Bearer /, "")
+  );
+  if (!claims || isExpired(claims, Date.now(), 0))
+    throw new MockHttpError(401, "Token ausente ou expirado");
+  const user = state.users.find((u) => String(u.id) === claims.sub);
+  if (!user || user.status !== "ativo")
+    throw new MockHttpError(401, "Usuário inativo");
+  return user;
+}
+
+export function handle(req: MockRequest): Promise<MockResponse> {
+  // rotas fixas antes das parametrizadas (/users/me antes de /users/:id)
+  const candidates = routes.filter((r) => r.method === req.method);
+  let route: Route | undefined;
+  let params: Record<string, string> | null = null;
+  for (const r of candidates) {
+    params = match(r.pattern, req.path);
+    if (params) {
+      route = r;
+      break;
+    }
+  }
+  if (!route || !params) {
+    return Promise.resolve({
+      status: 404,
+      data: { message: `Rota simulada inexistente: ${req.method} ${req.path}` },
+    });
+  }
+
+  const found = route;
+  const routeParams = params;
+  return transact((state) => {
+    const user = found.roles ? authenticate(state, req) : null;
+    if (user && found.roles?.length && !found.roles.includes(user.role))
+      throw new MockHttpError(403, "Sem permissão");
+    return found.handle({ state, params: routeParams, req, user });
+  }).catch((err) => {
+    if (err instanceof MockHttpError)
+      return {
+        status: err.status,
+        data: { message: err.message, fields: err.fields },
+      };
+    throw err;
+  });
+}
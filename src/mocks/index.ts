@@ -0,0 +1,25 @@
+// src/mocks/index.ts
+// Backend simulado no navegador, ligado por `VITE_MOCK_API=true` ou
+// `"mockApi": true` no config.json. Carregado sob demanda: fica fora do
+// bundle principal quando desligado.
+import axios from "axios";
+import api from "../services/api";
+import { mockAdapter } from "./adapter";
+import { resetState } from "./db";
+
+declare global {
+  interface Window {
+    /** Controle do mock para QA e testes automatizados (ex.: Playwright). */
+    mockApi?: { reset: () => Promise<void> };
+  }
+}
+
+export function installMockBackend() {
+  // `api` e o refresh (axios puro) passam pelo mesmo adapter
+  api.defaults.adapter = mockAdapter;
+  axios.defaults.adapter = mockAdapter;
+  window.mockApi = { reset: resetState };
+  console.info(
+    "[mock] API simulada ativa. Usuários: admin@, editor@, leitor@mock.local (senha123)."
+  );
+}
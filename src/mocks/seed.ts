@@ -0,0 +1,215 @@
+// src/mocks/seed.ts
+// Dados iniciais do backend simulado. Senha de todos os usuários: "senha123".
+import type { MockState } from "./db";
+
+const daysAgo = (n: number) =>
+  new Date(Date.now() - n * 24 * 60 * 60 * 1000).toISOString();
+const daysFromNow = (n: number) => daysAgo(-n);
+
+const FILES = "https://arquivos.mock.local";
+
+export function seedState(): MockState {
+  return {
+    users: [
+      {
+        id: 1,
+        name: "Ana Administradora",
+        email: "admin@mock.local",
+        password: "senha123",
+        role: "admin",
+        status: "ativo",
+        createdAt: daysAgo(120),
+      },
+      {
+        id: 2,
+        name: "Eduardo Editor",
+        email: "editor@mock.local",
+        password: "senha123",
+        role: "editor",
+        status: "ativo",
+        createdAt: daysAgo(90),
+      },
+      {
+        id: 3,
+        name: "Lúcia Leitora",
+        email: "leitor@mock.local",
+        password: "senha123",
+        role: "viewer",
+        status: "ativo",
+        createdAt: daysAgo(60),
+      },
+      {
+        id: 4,
+        name: "Paulo Pendente",
+        email: "pendente@mock.local",
+        password: "senha123",
+        role: "viewer",
+        status: "pendente",
+        createdAt: daysAgo(2),
+      },
+      {
+        id: 5,
+        name: "Bruno Bloqueado",
+        email: "bloqueado@mock.local",
+        password: "senha123",
+        role: "viewer",
+        status: "bloqueado",
+        createdAt: daysAgo(30),
+      },
+    ],
+    releases: [
+      {
+        id: 101,
+        version: "2.4.0",
+        previousVersion: "2.3.1",
+        ota: true,
+        otaObs: "",
+        releaseDate: daysAgo(10),
+        importantNote: "Atualizar primeiro o módulo de potência.",
+        productCategory: "Carregadores AC",
+        productName: "CVE 7kW",
+        status: "producao",
+        modules: [
+          { id: 1, module: "Controle", version: "2.4.0", updated: true },
+          { id: 2, module: "Potência", version: "1.8.2", updated: false },
+        ],
+        entries: [
+          {
+            id: 1,
+            itemOrder: 1,
+            classification: "Melhoria",
+            observation: "Suporte a OCPP 1.6J com perfis de carga.",
+          },
+          {
+            id: 2,
+            itemOrder: 2,
+            classification: "Correção",
+            observation: "Reconexão Wi-Fi após queda de energia.",
+          },
+        ],
+        links: [
+          {
+            id: 1,
+            module: "Controle",
+            description: "Firmware principal",
+            url: `${FILES}/carregadores-ac/cve-7kw/controle-2.4.0.bin`,
+          },
+        ],
+        createdAt: daysAgo(12),
+        updatedAt: daysAgo(10),
+      },
+      {
+        id: 102,
+        version: "2.5.0-rc1",
+        previousVersion: "2.4.0",
+        ota: false,
+        otaObs: "Atualização somente via USB.",
+        releaseDate: daysAgo(1),
+        importantNote: "",
+        productCategory: "Carregadores AC",
+        productName: "CVE 7kW",
+        status: "revisao",
+        modules: [
+          { id: 3, module: "Controle", version: "2.5.0", updated: true },
+        ],
+        entries: [
+          {
+            id: 3,
+            itemOrder: 1,
+            classification: "Nova funcionalidade",
+            observation: "Agendamento de recarga pelo aplicativo.",
+          },
+        ],
+        links: [],
+        createdAt: daysAgo(1),
+        updatedAt: daysAgo(1),
+      },
+      {
+        id: 103,
+        version: "1.2.3",
+        previousVersion: "1.2.2",
+        ota: true,
+        otaObs: "",
+        releaseDate: daysAgo(200),
+        importantNote: "",
+        productCategory: "Carregadores DC",
+        productName: "CVE 60kW",
+        status: "descontinuado",
+        modules: [
+          { id: 4, module: "Retificador", version: "1.2.3", updated: true },
+        ],
+        entries: [
+          {
+            id: 4,
+            itemOrder: 1,
+            classification: "Correção",
+            observation: "Ajuste na leitura de temperatura do conector.",
+          },
+        ],
+        links: [
+          {
+            id: 2,
+            module: "Retificador",
+            description: "Firmware",
+            url: `${FILES}/carregadores-dc/cve-60kw/retificador-1.2.3.bin`,
+          },
+        ],
+        createdAt: daysAgo(205),
+        updatedAt: daysAgo(150),
+      },
+    ],
+    approvals: [
+      {
+        id: 201,
+        establishment: "Posto Via Sul",
+        date: daysAgo(20),
+        productName: "CVE 7kW",
+        category: "Carregadores AC",
+        description: "Instalação em estacionamento coberto, 4 pontos.",
+        fileUrl: `${FILES}/homologacoes/posto-via-sul.pdf`,
+        createdAt: daysAgo(20),
+        updatedAt: daysAgo(20),
+        createdBy: { id: 2, name: "Eduardo Editor", role: "editor" },
+      },
+      {
+        id: 202,
+        establishment: "Shopping Centro Norte",
+        date: daysAgo(45),
+        productName: "CVE 60kW",
+        category: "Carregadores DC",
+        description: "Eletroposto com dois carregadores rápidos.",
+        fileUrl: `${FILES}/homologacoes/shopping-centro-norte.pdf`,
+        createdAt: daysAgo(45),
+        updatedAt: daysAgo(40),
+        createdBy: null,
+      },
+    ],
+    keyRequests: [
+      {
+        nome: "Carla Convidada",
+        email: "convite@mock.local",
+        cpf: "52998224725",
+        chave: "MOCK-CHAVE-VALIDA",
+        status: "emitida",
+        usada: false,
+        expiraEm: daysFromNow(7),
+        atualizadoEm: daysAgo(1),
+      },
+      {
+        nome: "Renato Recusado",
+        email: "recusado@mock.local",
+        cpf: "11144477735",
+        chave: "MOCK-CHAVE-RECUSADA",
+        status: "recusada",
+        motivo: "Solicitante sem vínculo com a Intelbras.",
+        usada: false,
+        expiraEm: daysAgo(1),
+        atualizadoEm: daysAgo(3),
+      },
+    ],
+    resetTokens: [],
+    uploads: [],
+    sessionUserId: null,
+    nextId: 1000,
+  };
+}
@@ -0,0 +1,39 @@
+// src/routes/DashboardLayout.tsx
+import { useEffect, useState } from "react";
+import { Outlet } from "react-router-dom";
+import Header from "../components/header";
+import CommandPalette from "../components/commandPalette";
+import OfflineBanner from "../components/offlineBanner";
+
+/** Moldura das páginas autenticadas: cabeçalho fixo e conteúdo da rota filha. */
+export default function DashboardLayout() {
+  const [paletteOpen, setPaletteOpen] = useState(false);
+
+  // Ctrl+K (Cmd+K no macOS) abre a paleta de qualquer página autenticada
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setPaletteOpen((o) => !o);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  return (
+    <>
+      <header className="w-full">
+        <Header onOpenPalette={() => setPaletteOpen(true)} />
+        <OfflineBanner />
+      </header>
+      <main className="flex-1 h-screen overflow-auto">
+        <Outlet />
+      </main>
+      <CommandPalette
+        open={paletteOpen}
+        onClose={() => setPaletteOpen(false)}
+      />
+    </>
+  );
+}
@@ -1,11 +1,22 @@
 // src/routes/PrivateRoute.tsx
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
+import Forbidden from "../components/forbidden";
+import { useAuth } from "../contexts/authContext";
+import type { Role } from "../utils/jwt";
+import { hasAnyRole } from "../utils/permissions";
+import { loginPathFor } from "../utils/redirect";
 
 interface PrivateRouteProps {
   children: React.ReactNode;
-  isAuthenticated: boolean;
+  roles?: Role[];
 }
 
-export default function PrivateRoute({ children, isAuthenticated }: PrivateRouteProps) {
-  return isAuthenticated ? children : <Navigate to="/login" replace />;
+export default function PrivateRoute({ children, roles }: PrivateRouteProps) {
+  const { isAuthenticated, claims } = useAuth();
+  const location = useLocation();
+  // Sessão encerrada à força (refresh falhou, expirou, logout em outra aba)
+  // também passa por aqui e preserva a página atual
+  if (!isAuthenticated) return <Navigate to={loginPathFor(location)} replace />;
+  if (!hasAnyRole(claims?.role ?? null, roles)) return <Forbidden />;
+  return children;
 }
@@ -1,51 +1,85 @@
 // services/api.ts
-import axios from "axios";
+import axios, { type AxiosError, type InternalAxiosRequestConfig } from "axios";
+import { ApiError, toApiError } from "./apiError";
+import { authStore } from "./authStore";
+import { getConfig } from "./config";
+import { backoff, waitForOnline } from "./network";
+
+// Só leituras são repetidas: repetir um POST/PUT pode gravar duas vezes
+const RETRY_METHODS = ["get", "head", "options"];
+const RETRY_STATUS = [408, 429, 500, 502, 503, 504];
+const MAX_RETRIES = 3;
+// offline por mais que isso, a leitura falha e a revalidação ao reconectar
+// (queryCache) busca de novo
+const OFFLINE_WAIT_MS = 15000;
+
+type RetryConfig = InternalAxiosRequestConfig & { _retryCount?: number };
+
+function shouldRetry(err: AxiosError): boolean {
+  const cfg = err.config as RetryConfig | undefined;
+  if (!cfg || err.code === "ERR_CANCELED") return false;
+  if (!RETRY_METHODS.includes((cfg.method ?? "get").toLowerCase()))
+    return false;
+  if ((cfg._retryCount ?? 0) >= MAX_RETRIES) return false;
+  // sem resposta: queda de rede, DNS, timeout
+  return !err.response || RETRY_STATUS.includes(err.response.status);
+}
+
 const api = axios.create({
-  baseURL: "https://api-changelog.intelbras-cve-pro.com.br/api",
   withCredentials: true,
 });
 
 api.interceptors.request.use((cfg) => {
-  const t = localStorage.getItem("token");
+  // lida a cada requisição: a config de runtime chega depois deste módulo
+  cfg.baseURL = getConfig().apiBaseUrl;
+  const t = authStore.getState().token;
   if (t) cfg.headers.Authorization = `Bearer ${t}`;
   return cfg;
 });
 
-let refreshing = false;
-let queue: any[] = [];
-
 api.interceptors.response.use(
   (r) => r,
   async (err) => {
     const original = err.config;
-    if (err.response?.status === 401 && !original._retry) {
+    // sem sessão (ex.: credenciais inválidas no login) não há o que renovar
+    if (
+      err.response?.status === 401 &&
+      original &&
+      !original._retry &&
+      authStore.getState().token
+    ) {
       original._retry = true;
-      if (refreshing)
-        return new Promise((res, rej) => queue.push({ res, rej, original }));
-
       try {
-        refreshing = true;
-        const { data } = await axios.post(
-          `https://api-changelog.intelbras-cve-pro.com.br/api/auth/refresh`,
-          {},
-          { withCredentials: true }
-        );
-        localStorage.setItem("token", data.token);
-        original.headers.Authorization = `Bearer ${data.token}`;
-        queue.forEach((w) => w.res(api(w.original)));
-        queue = [];
+        // requisições que falharem juntas aguardam o mesmo refresh
+        const token = await authStore.refresh();
+        original.headers.Authorization = `Bearer ${token}`;
         return api(original);
-      } catch (e) {
-        queue.forEach((w) => w.rej(e));
-        queue = [];
-        localStorage.clear();
-        window.location.href = "/";
-        return Promise.reject(e);
-      } finally {
-        refreshing = false;
+      } catch {
+        // PrivateRoute leva ao login guardando a página atual em ?redirect=
+        authStore.logout();
+        return Promise.reject(toApiError(err));
+      }
+    }
+    if (shouldRetry(err)) {
+      const cfg = original as RetryConfig;
+      const attempt = cfg._retryCount ?? 0;
+      cfg._retryCount = attempt + 1;
+      const signal = cfg.signal as AbortSignal | undefined;
+      try {
+        await backoff(attempt, signal);
+        // offline: a tentativa espera a conexão voltar, até o limite
+        await waitForOnline(signal, OFFLINE_WAIT_MS);
+      } catch (waitErr) {
+        return Promise.reject(
+          signal?.aborted
+            ? new ApiError("cancelada", { cause: waitErr })
+            : toApiError(waitErr)
+        );
       }
+      return api(cfg);
     }
-    return Promise.reject(err);
+    // as telas recebem sempre um ApiError, nunca o AxiosError cru
+    return Promise.reject(toApiError(err));
   }
 );
 
@@ -0,0 +1,172 @@
+// src/services/apiError.ts
+// Normalização dos erros HTTP. O interceptor do `api` converte toda falha em
+// ApiError; as telas usam `message` no toast e `fields` para destacar inputs,
+// sem conhecer o formato das respostas de erro do backend.
+import { isAxiosError } from "axios";
+
+export type ApiErrorKind =
+  | "rede"
+  | "cancelada"
+  | "validacao"
+  | "nao-autenticado"
+  | "sem-permissao"
+  | "nao-encontrado"
+  | "conflito"
+  | "muito-grande"
+  | "servidor"
+  | "desconhecido";
+
+/**
+ * Erros de campo vindos do backend, indexados pelo nome do campo na API.
+ * Itens de lista usam ponto e índice: `links.0.url`.
+ */
+export type FieldErrors = Record<string, string>;
+
+const defaultMessages: Record<ApiErrorKind, string> = {
+  rede: "Não foi possível conectar ao servidor. Verifique sua conexão.",
+  cancelada: "Operação cancelada.",
+  validacao: "Alguns campos são inválidos. Corrija e tente novamente.",
+  "nao-autenticado": "Sua sessão expirou. Entre novamente.",
+  "sem-permissao": "Você não tem permissão para esta ação.",
+  "nao-encontrado": "Registro não encontrado.",
+  conflito: "O registro já existe ou foi alterado por outra pessoa.",
+  "muito-grande": "O envio excede o tamanho máximo permitido.",
+  servidor: "O servidor falhou ao processar a solicitação. Tente mais tarde.",
+  desconhecido: "Ocorreu um erro inesperado. Tente novamente.",
+};
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  /** Status HTTP; ausente em falhas de rede e cancelamentos. */
+  readonly status?: number;
+  readonly fields: FieldErrors;
+  /** Mensagem enviada pelo backend, quando houver. */
+  readonly serverMessage?: string;
+
+  constructor(
+    kind: ApiErrorKind,
+    opts: {
+      status?: number;
+      fields?: FieldErrors;
+      serverMessage?: string;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(defaultMessages[kind], { cause: opts.cause });
+    this.name = "ApiError";
+    this.kind = kind;
+    this.status = opts.status;
+    this.fields = opts.fields ?? {};
+    this.serverMessage = opts.serverMessage;
+  }
+
+  /**
+   * Texto para o usuário. Em 400/409 o backend costuma explicar o problema
+   * (ex.: "E-mail já cadastrado"); nos demais a mensagem padrão é mais útil
+   * que detalhes técnicos.
+   */
+  get userMessage(): string {
+    if (
+      this.serverMessage &&
+      (this.kind === "validacao" || this.kind === "conflito")
+    )
+      return this.serverMessage;
+    return this.message;
+  }
+}
+
+export function isApiError(err: unknown): err is ApiError {
+  return err instanceof ApiError;
+}
+
+function kindOf(status: number): ApiErrorKind {
+  if (status === 400 || status === 422) return "validacao";
+  if (status === 401) return "nao-autenticado";
+  if (status === 403) return "sem-permissao";
+  if (status === 404) return "nao-encontrado";
+  if (status === 409) return "conflito";
+  if (status === 413) return "muito-grande";
+  if (status >= 500) return "servidor";
+  return "desconhecido";
+}
+
+// `links[0].url` → `links.0.url`
+const fieldPath = (name: string) => name.replace(/\[(\d+)\]/g, ".$1");
+
+const str = (v: unknown) =>
+  typeof v === "string" && v.trim() ? v.trim() : undefined;
+
+/**
+ * Aceita os formatos de detalhe já vistos no backend:
+ * `{ fields: { email: "..." } }`, `{ errors: { email: "..." } }` e
+ * `{ details: [{ field: "email", message: "..." }] }`.
+ */
+function readFields(data: Record<string, unknown>): FieldErrors {
+  const out: FieldErrors = {};
+  for (const key of ["fields", "errors"]) {
+    const map = data[key];
+    if (!map || typeof map !== "object" || Array.isArray(map)) continue;
+    for (const [name, v] of Object.entries(map)) {
+      const msg = str(v) ?? (Array.isArray(v) ? str(v[0]) : undefined);
+      if (msg) out[fieldPath(name)] = msg;
+    }
+  }
+  if (Array.isArray(data.details)) {
+    for (const d of data.details) {
+      const name = str((d as { field?: unknown })?.field);
+      const msg = str((d as { message?: unknown })?.message);
+      if (name && msg) out[fieldPath(name)] = msg;
+    }
+  }
+  return out;
+}
+
+/** Converte qualquer falha de requisição em ApiError; ApiError passa direto. */
+export function toApiError(err: unknown): ApiError {
+  if (isApiError(err)) return err;
+  if (!isAxiosError(err)) return new ApiError("desconhecido", { cause: err });
+  if (err.code === "ERR_CANCELED")
+    return new ApiError("cancelada", { cause: err });
+
+  const res = err.response;
+  if (!res) return new ApiError("rede", { cause: err });
+
+  const data =
+    res.data && typeof res.data === "object"
+      ? (res.data as Record<string, unknown>)
+      : {};
+  return new ApiError(kindOf(res.status), {
+    status: res.status,
+    fields: readFields(data),
+    serverMessage: str(data.message) ?? str(data.error),
+    cause: err,
+  });
+}
+
+/** Status HTTP de uma falha, se houver. */
+export function statusOf(err: unknown): number | undefined {
+  return isApiError(err) ? err.status : undefined;
+}
+
+/**
+ * Erros de campo renomeados para os nomes usados no formulário
+ * (ex.: `{ name: "nome" }`); campos fora do mapa mantêm o nome da API.
+ */
+export function fieldErrorsOf<F extends string>(
+  err: unknown,
+  names: Partial<Record<string, F>> = {}
+): Partial<Record<F, string>> {
+  if (!isApiError(err)) return {};
+  const out: Partial<Record<F, string>> = {};
+  for (const [name, msg] of Object.entries(err.fields)) {
+    out[(names[name] ?? name) as F] = msg;
+  }
+  return out;
+}
+
+/** Mensagem para toast: a do ApiError ou, se não for um, o texto padrão. */
+export function errorMessage(err: unknown, fallback: string): string {
+  return isApiError(err) && err.kind !== "desconhecido"
+    ? err.userMessage
+    : fallback;
+}
@@ -0,0 +1,60 @@
+// src/services/approvalsApi.ts
+import api from "./api";
+import type { Approval, ApprovalInput, UserPublic } from "./models";
+import {
+  array,
+  date,
+  nullable,
+  number,
+  object,
+  parseResponse,
+  string,
+  text,
+} from "./schema";
+
+const approvalDecoder = object<Approval>({
+  id: number,
+  establishment: string,
+  date: date,
+  productName: string,
+  category: text,
+  description: text,
+  fileUrl: text,
+  createdAt: date,
+  updatedAt: date,
+  createdBy: nullable(
+    object<UserPublic>({ id: number, name: text, role: text })
+  ),
+});
+
+function approvalBody(input: ApprovalInput) {
+  const fd = new FormData();
+  fd.append("establishment", input.establishment);
+  fd.append("productName", input.productName);
+  fd.append("category", input.category);
+  fd.append("description", input.description);
+  // YYYY-MM-DD do formulário, como veio: o backend faz o parse
+  if (input.date) fd.append("date", input.date);
+  if (input.file) fd.append("file", input.file);
+  return fd;
+}
+
+export const approvalsApi = {
+  async list(): Promise<Approval[]> {
+    const { data } = await api.get<unknown>("/v1/approvals");
+    return parseResponse(array(approvalDecoder), data, "GET /v1/approvals");
+  },
+
+  // boundary do multipart definido pelo browser
+  async create(input: ApprovalInput) {
+    await api.post("/v1", approvalBody(input));
+  },
+
+  async update(id: number, input: ApprovalInput) {
+    await api.put(`/v1/approvals/${id}`, approvalBody(input));
+  },
+
+  async remove(id: number) {
+    await api.delete(`/v1/approvals/${id}`);
+  },
+};
@@ -0,0 +1,32 @@
+// src/services/authApi.ts
+// A renovação do token fica no authStore, fora dos interceptors deste cliente.
+import api from "./api";
+import { tokenDecoder } from "./authStore";
+import { parseResponse } from "./schema";
+
+export const authApi = {
+  async login(email: string, password: string): Promise<string> {
+    const { data } = await api.post<unknown>("/auth/login", {
+      email,
+      password,
+    });
+    return parseResponse(tokenDecoder, data, "POST /auth/login").token;
+  },
+
+  async changePassword(currentPassword: string, newPassword: string) {
+    await api.post("/auth/change-password", { currentPassword, newPassword });
+  },
+
+  async forgotPassword(email: string) {
+    await api.post("/auth/forgot-password", { email });
+  },
+
+  /** Confere se o link de redefinição ainda é válido (410 expirado, 409 usado). */
+  async checkResetToken(token: string) {
+    await api.get(`/auth/reset-password/${encodeURIComponent(token)}`);
+  },
+
+  async resetPassword(token: string, password: string) {
+    await api.post("/auth/reset-password", { token, password });
+  },
+};
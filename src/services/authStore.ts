@@ -0,0 +1,193 @@
+// services/authStore.ts
+// Fonte única do estado de autenticação. Não depende de React nem do DOM:
+// storage, requisição de refresh e sincronização entre abas são injetados.
+import axios from "axios";
+import {
+  decodeJwtClaims,
+  expiresIn,
+  isExpired,
+  isNotYetValid,
+  type JwtClaims,
+} from "../utils/jwt";
+import {
+  broadcastAuth,
+  subscribeAuth,
+  withRefreshLock,
+  type AuthMessage,
+} from "./authSync";
+import { getConfig } from "./config";
+import type { TokenResponse } from "./models";
+import { object, parseResponse, string } from "./schema";
+
+export type AuthStatus = "authenticated" | "unauthenticated";
+
+export type AuthState = {
+  status: AuthStatus;
+  token: string | null;
+  claims: JwtClaims | null;
+  expiresAt: number;
+};
+
+type KeyValueStorage = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+
+type AuthSync = {
+  broadcast: (msg: AuthMessage) => void;
+  subscribe: (handler: (msg: AuthMessage) => void) => () => void;
+  withLock: <T>(fn: () => Promise<T>) => Promise<T>;
+};
+
+type AuthStoreDeps = {
+  storage: KeyValueStorage;
+  refreshRequest: () => Promise<string>;
+  sync?: AuthSync;
+  now?: () => number;
+};
+
+// Token recém-renovado por outra aba é reaproveitado se ainda tiver esta folga
+const FRESH_TOKEN_MARGIN_MS = 60 * 1000;
+
+const signedOut: AuthState = {
+  status: "unauthenticated",
+  token: null,
+  claims: null,
+  expiresAt: 0,
+};
+
+export function createAuthStore({
+  storage,
+  refreshRequest,
+  sync,
+  now = Date.now,
+}: AuthStoreDeps) {
+  const listeners = new Set<() => void>();
+  let refreshPromise: Promise<string> | null = null;
+
+  function readState(): AuthState {
+    const token = storage.getItem("token");
+    const claims = decodeJwtClaims(token);
+    // token malformado, sem exp, vencido ou ainda não válido; o exp vale
+    // sem tolerância para que a renovação aconteça antes do servidor recusar
+    if (!token || !claims?.exp) return signedOut;
+    if (isExpired(claims, now(), 0) || isNotYetValid(claims, now())) {
+      return signedOut;
+    }
+    return {
+      status: "authenticated",
+      token,
+      claims,
+      expiresAt: claims.exp * 1000,
+    };
+  }
+
+  function persist(token: string) {
+    storage.setItem("token", token);
+    const exp = decodeJwtClaims(token)?.exp;
+    if (exp) storage.setItem("expires_at", String(exp * 1000));
+  }
+
+  function clear() {
+    storage.removeItem("authenticated");
+    storage.removeItem("expires_at");
+    storage.removeItem("token");
+  }
+
+  let state = readState();
+  // Sessão vencida encontrada na inicialização é descartada
+  if (state.status === "unauthenticated") clear();
+
+  function setState(next: AuthState) {
+    state = next;
+    listeners.forEach((l) => l());
+  }
+
+  function login(token: string) {
+    persist(token);
+    setState(readState());
+    sync?.broadcast({ type: "login" });
+  }
+
+  function logout() {
+    clear();
+    setState(signedOut);
+    sync?.broadcast({ type: "logout" });
+  }
+
+  // Renova o token; chamadas simultâneas compartilham a mesma requisição e,
+  // entre abas, só uma por vez chama /auth/refresh
+  function refresh(): Promise<string> {
+    if (!refreshPromise) {
+      const staleToken = storage.getItem("token");
+      const run = async () => {
+        // outra aba pode ter renovado enquanto esperávamos o lock
+        const current = storage.getItem("token");
+        const claims = decodeJwtClaims(current);
+        if (
+          current &&
+          current !== staleToken &&
+          claims &&
+          expiresIn(claims, now()) > FRESH_TOKEN_MARGIN_MS
+        ) {
+          setState(readState());
+          return current;
+        }
+        const token = await refreshRequest();
+        persist(token);
+        setState(readState());
+        sync?.broadcast({ type: "refreshed", token });
+        return token;
+      };
+      refreshPromise = (sync ? sync.withLock(run) : run()).finally(() => {
+        refreshPromise = null;
+      });
+    }
+    return refreshPromise;
+  }
+
+  // Mensagens de outras abas: o storage já foi atualizado por quem enviou
+  function handleMessage(msg: AuthMessage) {
+    if (msg.type === "logout") {
+      clear();
+      setState(signedOut);
+    } else {
+      setState(readState());
+    }
+  }
+
+  return {
+    getState: () => state,
+    subscribe(listener: () => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    /** Passa a ouvir as outras abas; retorna a função de desinscrição. */
+    connect: () => sync?.subscribe(handleMessage) ?? (() => {}),
+    login,
+    logout,
+    refresh,
+  };
+}
+
+export type AuthStore = ReturnType<typeof createAuthStore>;
+
+/** Corpo do login e do refresh. */
+export const tokenDecoder = object<TokenResponse>({ token: string });
+
+export const authStore = createAuthStore({
+  storage: localStorage,
+  refreshRequest: async () => {
+    // fora do `api`: um 401 aqui não pode disparar outro refresh
+    const { data } = await axios.post<unknown>(
+      `${getConfig().apiBaseUrl}/auth/refresh`,
+      {},
+      { withCredentials: true }
+    );
+    return parseResponse(tokenDecoder, data, "POST /auth/refresh").token;
+  },
+  sync: {
+    broadcast: broadcastAuth,
+    subscribe: subscribeAuth,
+    withLock: withRefreshLock,
+  },
+});
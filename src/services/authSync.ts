@@ -0,0 +1,94 @@
+// services/authSync.ts
+// Sincroniza login, logout e renovação de token entre abas abertas.
+// Usa BroadcastChannel quando disponível e cai para o evento "storage".
+
+export type AuthMessage =
+  { type: "login" } | { type: "logout" } | { type: "refreshed"; token: string };
+
+const CHANNEL_NAME = "changelog-auth";
+const STORAGE_EVENT_KEY = "auth_event";
+const LOCK_KEY = "auth_refresh_lock";
+// Lock expira sozinho caso a aba dona seja fechada no meio da renovação
+const LOCK_TTL_MS = 15 * 1000;
+const LOCK_POLL_MS = 200;
+
+const tabId = Math.random().toString(36).slice(2);
+
+const channel: BroadcastChannel | null =
+  typeof BroadcastChannel !== "undefined"
+    ? new BroadcastChannel(CHANNEL_NAME)
+    : null;
+
+export function broadcastAuth(msg: AuthMessage) {
+  if (channel) {
+    channel.postMessage(msg);
+    return;
+  }
+  // nonce garante que o evento dispare mesmo com mensagens repetidas
+  localStorage.setItem(
+    STORAGE_EVENT_KEY,
+    JSON.stringify({ ...msg, nonce: `${tabId}:${Date.now()}` })
+  );
+  localStorage.removeItem(STORAGE_EVENT_KEY);
+}
+
+export function subscribeAuth(handler: (msg: AuthMessage) => void) {
+  if (channel) {
+    const onMessage = (ev: MessageEvent<AuthMessage>) => handler(ev.data);
+    channel.addEventListener("message", onMessage);
+    return () => channel.removeEventListener("message", onMessage);
+  }
+  const onStorage = (ev: StorageEvent) => {
+    if (ev.key !== STORAGE_EVENT_KEY || !ev.newValue) return;
+    try {
+      handler(JSON.parse(ev.newValue) as AuthMessage);
+    } catch {
+      // mensagem malformada de outra versão do app
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return () => window.removeEventListener("storage", onStorage);
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+type StoredLock = { owner: string; until: number };
+
+function readLock(): StoredLock | null {
+  try {
+    return JSON.parse(localStorage.getItem(LOCK_KEY) || "null");
+  } catch {
+    return null;
+  }
+}
+
+async function withStorageLock<T>(fn: () => Promise<T>): Promise<T> {
+  const owner = `${tabId}:${Math.random().toString(36).slice(2)}`;
+  for (;;) {
+    const held = readLock();
+    if (held && held.until > Date.now()) {
+      await sleep(LOCK_POLL_MS);
+      continue;
+    }
+    localStorage.setItem(
+      LOCK_KEY,
+      JSON.stringify({ owner, until: Date.now() + LOCK_TTL_MS })
+    );
+    // outra aba pode ter gravado no mesmo instante; confirma antes de seguir
+    await sleep(50);
+    if (readLock()?.owner === owner) break;
+  }
+  try {
+    return await fn();
+  } finally {
+    if (readLock()?.owner === owner) localStorage.removeItem(LOCK_KEY);
+  }
+}
+
+/** Executa `fn` com exclusividade entre todas as abas do app. */
+export function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator !== "undefined" && navigator.locks) {
+    return navigator.locks.request(LOCK_KEY, fn);
+  }
+  return withStorageLock(fn);
+}
@@ -0,0 +1,302 @@
+// src/services/chunkedUpload.ts
+// Envio de firmwares grandes em partes. Cada parte é repetida sozinha se a
+// conexão cair, e o estado fica no localStorage para retomar o envio depois de
+// recarregar a página: basta selecionar o mesmo arquivo de novo.
+//
+// Protocolo:
+//   POST   /uploads                    { fileName, size, dir, chunkSize } → sessão
+//   GET    /uploads/:id                → sessão (partes já recebidas)
+//   PUT    /uploads/:id/chunks/:index  corpo binário da parte
+//   POST   /uploads/:id/complete       → { url }
+//   DELETE /uploads/:id
+import api from "./api";
+import { ApiError, isApiError, toApiError } from "./apiError";
+import type { FirmwareUpload, ReleaseLinkInput } from "./models";
+import { backoff, waitForOnline } from "./network";
+import { array, number, object, parseResponse, string } from "./schema";
+import { progressReporter, type UploadOptions } from "./uploads";
+
+export const CHUNK_SIZE = 8 * 1024 * 1024;
+// abaixo disso o multipart único é mais simples e perder o envio custa pouco
+export const CHUNKED_THRESHOLD = 32 * 1024 * 1024;
+
+const MAX_ATTEMPTS = 5;
+const RETRY_STATUS = [408, 429];
+const STORAGE_KEY = "chunked_uploads";
+// o backend descarta sessões paradas depois de um dia
+const STATE_TTL_MS = 24 * 60 * 60 * 1000;
+
+type UploadSession = {
+  uploadId: string;
+  chunkSize: number;
+  received: number[];
+};
+
+const sessionDecoder = object<UploadSession>({
+  uploadId: string,
+  chunkSize: number,
+  received: array(number),
+});
+
+const completeDecoder = object<{ url: string }>({ url: string });
+
+/** Envio guardado para retomada. */
+export type PendingUpload = {
+  uploadId: string;
+  /** dir + nome + tamanho + data de modificação do arquivo. */
+  fingerprint: string;
+  dir: string;
+  fileName: string;
+  size: number;
+  chunkSize: number;
+  /** Bytes já confirmados pelo servidor. */
+  uploadedBytes: number;
+  /** Preenchida ao concluir; o registro some quando a release é gravada. */
+  url?: string;
+  updatedAt: number;
+};
+
+const fingerprint = (file: File, dir: string) =>
+  [dir, file.name, file.size, file.lastModified].join("|");
+
+function readAll(): PendingUpload[] {
+  try {
+    const list = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    if (!Array.isArray(list)) return [];
+    const cutoff = Date.now() - STATE_TTL_MS;
+    return (list as PendingUpload[]).filter((u) => u.updatedAt > cutoff);
+  } catch {
+    return [];
+  }
+}
+
+function writeAll(list: PendingUpload[]) {
+  if (list.length) localStorage.setItem(STORAGE_KEY, JSON.stringify(list));
+  else localStorage.removeItem(STORAGE_KEY);
+}
+
+function save(entry: PendingUpload) {
+  const next = { ...entry, updatedAt: Date.now() };
+  writeAll([...readAll().filter((u) => u.uploadId !== entry.uploadId), next]);
+  return next;
+}
+
+function forget(uploadId: string) {
+  writeAll(readAll().filter((u) => u.uploadId !== uploadId));
+}
+
+/** Envios interrompidos ou concluídos cuja release ainda não foi gravada. */
+export function pendingUploads(): PendingUpload[] {
+  return readAll();
+}
+
+/** Abandona o envio e libera as partes no servidor (sem esperar). */
+export function discardUpload(uploadId: string) {
+  forget(uploadId);
+  api.delete(`/uploads/${uploadId}`).catch(() => undefined);
+}
+
+/** Se algum arquivo deve ir em partes. */
+export function shouldChunk(files: File[]) {
+  return files.some((f) => f.size >= CHUNKED_THRESHOLD);
+}
+
+function retryable(err: unknown) {
+  if (!isApiError(err)) return false;
+  return (
+    err.kind === "rede" ||
+    err.kind === "servidor" ||
+    RETRY_STATUS.includes(err.status ?? 0)
+  );
+}
+
+/** Espera entre tentativas; cancelar durante a espera vira ApiError "cancelada". */
+async function pause(attempt: number, signal?: AbortSignal) {
+  try {
+    await waitForOnline(signal);
+    await backoff(attempt, signal);
+  } catch (err) {
+    throw signal?.aborted
+      ? new ApiError("cancelada", { cause: err })
+      : toApiError(err);
+  }
+}
+
+/**
+ * Repete `task` em falhas de rede e do servidor, esperando a conexão voltar.
+ * Só para POST/PUT: leituras já são repetidas pelo interceptor do `api`.
+ */
+async function withRetry<T>(
+  task: () => Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= MAX_ATTEMPTS - 1 || !retryable(err)) throw err;
+      await pause(attempt, signal);
+    }
+  }
+}
+
+async function fetchSession(uploadId: string, signal?: AbortSignal) {
+  const { data } = await api.get<unknown>(`/uploads/${uploadId}`, { signal });
+  return parseResponse(sessionDecoder, data, "GET /uploads/:id");
+}
+
+/** Sessão salva para o arquivo, se o servidor ainda a tiver. */
+async function resumeSession(entry: PendingUpload, signal?: AbortSignal) {
+  try {
+    return await fetchSession(entry.uploadId, signal);
+  } catch (err) {
+    if (isApiError(err) && (err.status === 404 || err.status === 410)) {
+      forget(entry.uploadId);
+      return null;
+    }
+    throw err;
+  }
+}
+
+async function createSession(file: File, dir: string, signal?: AbortSignal) {
+  const { data } = await withRetry(
+    () =>
+      api.post<unknown>(
+        "/uploads",
+        { fileName: file.name, size: file.size, dir, chunkSize: CHUNK_SIZE },
+        { signal }
+      ),
+    signal
+  );
+  return parseResponse(sessionDecoder, data, "POST /uploads");
+}
+
+const chunkBytes = (size: number, chunkSize: number, index: number) =>
+  Math.min(chunkSize, size - index * chunkSize);
+
+/**
+ * Envia um arquivo em partes e devolve a URL final. `onLoaded` recebe o total
+ * de bytes do arquivo já enviados, incluindo os de sessões anteriores.
+ */
+async function uploadFile(
+  file: File,
+  dir: string,
+  onLoaded: (bytes: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const key = fingerprint(file, dir);
+  const saved = readAll().find((u) => u.fingerprint === key);
+  if (saved?.url) {
+    onLoaded(file.size);
+    return saved.url;
+  }
+
+  let session = saved ? await resumeSession(saved, signal) : null;
+  session ??= await createSession(file, dir, signal);
+  const { uploadId, chunkSize } = session;
+  const count = Math.ceil(file.size / chunkSize);
+
+  let entry = save({
+    uploadId,
+    fingerprint: key,
+    dir,
+    fileName: file.name,
+    size: file.size,
+    chunkSize,
+    uploadedBytes: 0,
+    updatedAt: Date.now(),
+  });
+
+  // a conclusão pode recusar (409) se o servidor perdeu alguma parte;
+  // nesse caso a lista de recebidas é relida e as faltantes reenviadas
+  for (let round = 0; ; round++) {
+    const received = new Set(session.received);
+    let uploaded = session.received.reduce(
+      (sum, i) => sum + chunkBytes(file.size, chunkSize, i),
+      0
+    );
+    entry = save({ ...entry, uploadedBytes: uploaded });
+    onLoaded(uploaded);
+
+    for (let index = 0; index < count; index++) {
+      if (received.has(index)) continue;
+      const start = index * chunkSize;
+      const blob = file.slice(
+        start,
+        start + chunkBytes(file.size, chunkSize, index)
+      );
+      await withRetry(
+        () =>
+          api.put(`/uploads/${uploadId}/chunks/${index}`, blob, {
+            signal,
+            headers: { "Content-Type": "application/octet-stream" },
+            onUploadProgress: (e) =>
+              onLoaded(uploaded + Math.min(blob.size, e.loaded)),
+          }),
+        signal
+      );
+      uploaded += blob.size;
+      entry = save({ ...entry, uploadedBytes: uploaded });
+      onLoaded(uploaded);
+    }
+
+    try {
+      const { data } = await withRetry(
+        () =>
+          api.post<unknown>(`/uploads/${uploadId}/complete`, null, { signal }),
+        signal
+      );
+      const { url } = parseResponse(
+        completeDecoder,
+        data,
+        "POST /uploads/:id/complete"
+      );
+      save({ ...entry, uploadedBytes: file.size, url });
+      return url;
+    } catch (err) {
+      if (round > 0 || !isApiError(err) || err.kind !== "conflito") throw err;
+      session = await fetchSession(uploadId, signal);
+    }
+  }
+}
+
+/**
+ * Envia os firmwares em partes, um arquivo por vez, e devolve os links para
+ * a release. Chame `done` depois de gravar a release para apagar o estado de
+ * retomada; se a gravação falhar, um novo envio reaproveita as URLs.
+ */
+export async function uploadInChunks(
+  uploads: FirmwareUpload[],
+  dir: string,
+  opts: UploadOptions = {}
+): Promise<{ links: ReleaseLinkInput[]; done: () => void }> {
+  const files = uploads.map((u) => u.file);
+  const report = opts.onProgress
+    ? progressReporter(files, opts.onProgress)
+    : undefined;
+  const loaded = files.map(() => 0);
+
+  const links: ReleaseLinkInput[] = [];
+  for (const [i, u] of uploads.entries()) {
+    const url = await uploadFile(
+      u.file,
+      dir,
+      (bytes) => {
+        loaded[i] = bytes;
+        report?.(loaded);
+      },
+      opts.signal
+    );
+    links.push({
+      module: u.module || "default",
+      description: u.description || "Firmware",
+      url,
+    });
+  }
+
+  const keys = new Set(files.map((f) => fingerprint(f, dir)));
+  return {
+    links,
+    done: () => writeAll(readAll().filter((u) => !keys.has(u.fingerprint))),
+  };
+}
@@ -0,0 +1,81 @@
+// src/services/config.ts
+// Configuração do ambiente. Ordem de precedência:
+//   1. /config.json servido junto do app (gerado na subida do container nginx)
+//   2. variáveis VITE_* do build (.env, .env.staging, ...)
+//   3. padrões de produção abaixo
+import { boolean, object, optional, parseResponse, string } from "./schema";
+
+export type AppConfig = {
+  /** URL base da API, sem barra no final. */
+  apiBaseUrl: string;
+  /** "production", "staging", "development"... fora de produção o Header mostra um selo. */
+  environment: string;
+  /** Usa o backend simulado em src/mocks no lugar da API. */
+  mockApi: boolean;
+};
+
+const DEFAULT_API_BASE_URL =
+  "https://api-changelog.intelbras-cve-pro.com.br/api";
+
+const RUNTIME_CONFIG_URL = "/config.json";
+const RUNTIME_CONFIG_TIMEOUT_MS = 3000;
+
+const trimSlash = (url: string) => url.replace(/\/+$/, "");
+
+let config: AppConfig = {
+  apiBaseUrl: trimSlash(
+    import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL
+  ),
+  environment:
+    import.meta.env.VITE_APP_ENV ||
+    (import.meta.env.PROD ? "production" : "development"),
+  mockApi: import.meta.env.VITE_MOCK_API === "true",
+};
+
+export function getConfig(): AppConfig {
+  return config;
+}
+
+export const isProduction = () => config.environment === "production";
+
+const runtimeDecoder = object<Partial<AppConfig>>({
+  apiBaseUrl: optional(string),
+  environment: optional(string),
+  mockApi: optional(boolean),
+});
+
+/**
+ * Aplica o /config.json, se existir. Chamado uma vez antes de montar o app;
+ * sem o arquivo (dev, build estático) valem os valores do build.
+ */
+export async function loadRuntimeConfig(): Promise<AppConfig> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), RUNTIME_CONFIG_TIMEOUT_MS);
+  try {
+    const res = await fetch(RUNTIME_CONFIG_URL, {
+      cache: "no-store",
+      signal: controller.signal,
+    });
+    // o fallback de SPA devolve o index.html para caminhos inexistentes
+    const type = res.headers.get("content-type") ?? "";
+    if (!res.ok || !type.includes("json")) return config;
+
+    const runtime = parseResponse(
+      runtimeDecoder,
+      await res.json(),
+      `GET ${RUNTIME_CONFIG_URL}`
+    );
+    config = {
+      apiBaseUrl: runtime.apiBaseUrl
+        ? trimSlash(runtime.apiBaseUrl)
+        : config.apiBaseUrl,
+      environment: runtime.environment || config.environment,
+      mockApi: runtime.mockApi ?? config.mockApi,
+    };
+  } catch (err) {
+    console.error("Falha ao carregar config.json; usando a do build:", err);
+  } finally {
+    clearTimeout(timer);
+  }
+  return config;
+}
@@ -0,0 +1,22 @@
+// src/services/dates.ts
+// Serialização de datas entre formulários e backend, usada por todos os clientes.
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Data para o backend: sempre ISO 8601 em UTC. Aceita o "YYYY-MM-DD" do
+ * `<input type="date">` (meia-noite UTC) ou qualquer data que o `Date` entenda.
+ */
+export function toApiDate(v?: string | null): string | undefined {
+  if (!v) return undefined;
+  const d = new Date(DATE_ONLY.test(v) ? `${v}T00:00:00Z` : v);
+  return isNaN(d.getTime()) ? undefined : d.toISOString();
+}
+
+/** Data do backend para o valor de um `<input type="date">` ("YYYY-MM-DD"). */
+export function toInputDate(v?: string | null): string {
+  if (!v) return "";
+  if (DATE_ONLY.test(v)) return v;
+  const iso = toApiDate(v);
+  return iso ? iso.slice(0, 10) : "";
+}
@@ -0,0 +1,141 @@
+// src/services/models.ts
+// Modelos trocados com o backend, compartilhados pelos clientes da API.
+// As respostas já chegam validadas (ver schema.ts): listas nunca são nulas e
+// datas vêm em ISO 8601 ("" quando ausentes).
+import type { Role } from "../utils/jwt";
+
+// ---- Releases ----
+
+export type ReleaseStatus = "revisao" | "producao" | "descontinuado";
+
+export type ReleaseLink = {
+  id: number;
+  module: string;
+  description: string;
+  url: string;
+};
+export type ReleaseModule = {
+  id: number;
+  module: string;
+  version: string;
+  updated: boolean;
+};
+export type ReleaseEntry = {
+  id: number;
+  itemOrder: number;
+  classification: string;
+  /** Só existe em registros antigos; não é enviado nas gravações. */
+  category?: string;
+  observation: string;
+};
+export type Release = {
+  id: number;
+  version: string;
+  previousVersion: string;
+  ota: boolean;
+  otaObs?: string;
+  releaseDate: string;
+  importantNote?: string;
+  productCategory: string;
+  productName: string;
+  status: ReleaseStatus | string;
+  modules: ReleaseModule[];
+  entries: ReleaseEntry[];
+  links: ReleaseLink[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ReleaseModuleInput = Omit<ReleaseModule, "id">;
+export type ReleaseEntryInput = Omit<ReleaseEntry, "id" | "category">;
+export type ReleaseLinkInput = Omit<ReleaseLink, "id">;
+
+/** Corpo aceito no POST/PUT de /releases (a release inteira, sem ids). */
+export type ReleaseInput = {
+  version: string;
+  previousVersion: string;
+  ota: boolean;
+  otaObs: string;
+  releaseDate: string;
+  importantNote: string;
+  productCategory: string;
+  productName: string;
+  status: ReleaseStatus | string;
+  modules: ReleaseModuleInput[];
+  entries: ReleaseEntryInput[];
+  links: ReleaseLinkInput[];
+};
+
+/** Arquivo de firmware enviado junto da release; vira um link no backend. */
+export type FirmwareUpload = {
+  file: File;
+  module: string;
+  description: string;
+};
+
+// ---- Homologações ----
+
+export type UserPublic = {
+  id: number;
+  name: string;
+  role: string;
+};
+
+export type Approval = {
+  id: number;
+  establishment: string;
+  date: string;
+  productName: string;
+  category: string;
+  description: string;
+  fileUrl: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: UserPublic | null;
+};
+
+export type ApprovalInput = {
+  establishment: string;
+  date: string;
+  productName: string;
+  category: string;
+  description: string;
+  file: File | null;
+};
+
+// ---- Usuários e chaves de acesso ----
+
+export type UserStatus = "pendente" | "ativo" | "bloqueado";
+
+export type User = {
+  id: number;
+  name: string;
+  email: string;
+  role: Role;
+  status: UserStatus;
+  createdAt: string;
+};
+
+export type SignUpInput = {
+  name: string;
+  email: string;
+  password: string;
+  chave?: string;
+};
+
+/** Dados da chave de acesso, usados para preencher o cadastro. */
+export type KeyInfo = { email?: string; nome?: string };
+
+export type KeyRequestInput = { nome: string; email: string; cpf: string };
+
+export type KeyRequestStatus = "emitida" | "pendente" | "recusada";
+
+export type KeyRequestStatusResponse = {
+  status: KeyRequestStatus;
+  motivo?: string | null;
+  atualizadoEm?: string | null;
+};
+
+// ---- Autenticação ----
+
+export type TokenResponse = { token: string };
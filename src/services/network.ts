@@ -0,0 +1,86 @@
+// src/services/network.ts
+// Estado da conexão do navegador (eventos online/offline), para o banner,
+// os botões de gravação e as novas tentativas do `api` e dos uploads.
+import { ApiError } from "./apiError";
+
+const RETRY_BASE_MS = 500;
+const RETRY_MAX_MS = 8000;
+
+const listeners = new Set<() => void>();
+let online = typeof navigator === "undefined" ? true : navigator.onLine;
+
+function set(next: boolean) {
+  if (next === online) return;
+  online = next;
+  listeners.forEach((l) => l());
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => set(true));
+  window.addEventListener("offline", () => set(false));
+}
+
+export function isOnline() {
+  return online;
+}
+
+export function subscribeOnline(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Resolve quando a conexão voltar (na hora, se já estiver online). Com
+ * `timeoutMs`, desiste depois desse tempo com um ApiError "rede".
+ */
+export function waitForOnline(
+  signal?: AbortSignal,
+  timeoutMs?: number
+): Promise<void> {
+  if (online) return Promise.resolve();
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      unsubscribe();
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+    const unsubscribe = subscribeOnline(() => {
+      if (!online) return;
+      cleanup();
+      resolve();
+    });
+    const timer =
+      timeoutMs === undefined
+        ? undefined
+        : setTimeout(() => {
+            cleanup();
+            reject(new ApiError("rede"));
+          }, timeoutMs);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** 500ms, 1s, 2s... com variação para as abas não repetirem juntas. */
+export function backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+  const base = Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+  const ms = base / 2 + Math.random() * (base / 2);
+  if (signal?.aborted) return Promise.reject(signal.reason);
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,163 @@
+// src/services/queryCache.ts
+// Cache de leituras da API por chave. Requisições iguais em andamento são
+// compartilhadas, gravações atualizam só as entradas afetadas e, ao voltar
+// para a janela ou reconectar, as chaves em uso são revalidadas em segundo plano.
+
+export type QueryState<T> = {
+  data: T | undefined;
+  error: unknown;
+  /** Há uma requisição em andamento (inclusive revalidação com dados na tela). */
+  fetching: boolean;
+  /** Momento da última resposta bem-sucedida; 0 se nunca carregou ou foi invalidada. */
+  updatedAt: number;
+};
+
+type Entry = {
+  state: QueryState<unknown>;
+  fetcher?: () => Promise<unknown>;
+  promise?: Promise<unknown>;
+  listeners: Set<() => void>;
+};
+
+type FetchOptions = {
+  /** Ignora os dados em cache e busca de novo (ainda compartilha o que estiver em andamento). */
+  force?: boolean;
+};
+
+// voltar à aba várias vezes seguidas não dispara uma requisição por vez
+const FOCUS_REVALIDATE_MS = 5000;
+
+const EMPTY: QueryState<never> = {
+  data: undefined,
+  error: null,
+  fetching: false,
+  updatedAt: 0,
+};
+
+const entries = new Map<string, Entry>();
+
+function entry(key: string): Entry {
+  let e = entries.get(key);
+  if (!e) {
+    e = { state: EMPTY, listeners: new Set() };
+    entries.set(key, e);
+  }
+  return e;
+}
+
+function update(key: string, patch: Partial<QueryState<unknown>>) {
+  const e = entry(key);
+  // novo objeto a cada mudança: useSyncExternalStore compara por referência
+  e.state = { ...e.state, ...patch };
+  e.listeners.forEach((l) => l());
+}
+
+function getState<T>(key: string): QueryState<T> {
+  return (entries.get(key)?.state ?? EMPTY) as QueryState<T>;
+}
+
+function subscribe(key: string, listener: () => void) {
+  const e = entry(key);
+  e.listeners.add(listener);
+  return () => {
+    e.listeners.delete(listener);
+  };
+}
+
+function fetchQuery<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  { force = false }: FetchOptions = {}
+): Promise<T> {
+  const e = entry(key);
+  e.fetcher = fetcher;
+  if (e.promise) return e.promise as Promise<T>;
+  if (!force && e.state.updatedAt > 0)
+    return Promise.resolve(e.state.data as T);
+
+  const promise = fetcher().then(
+    (data) => {
+      e.promise = undefined;
+      update(key, {
+        data,
+        error: null,
+        fetching: false,
+        updatedAt: Date.now(),
+      });
+      return data;
+    },
+    (error: unknown) => {
+      e.promise = undefined;
+      // dados antigos continuam na tela; o erro fica disponível para quem exibe
+      update(key, { error, fetching: false });
+      throw error;
+    }
+  );
+  e.promise = promise;
+  update(key, { fetching: true });
+  return promise;
+}
+
+/** Substitui os dados de `key` sem ir à API (ex.: depois de uma gravação). */
+function setData<T>(
+  key: string,
+  updater: T | ((prev: T | undefined) => T | undefined)
+) {
+  const prev = getState<T>(key).data;
+  const data =
+    typeof updater === "function"
+      ? (updater as (prev: T | undefined) => T | undefined)(prev)
+      : updater;
+  if (data === prev) return;
+  update(key, { data, error: null, updatedAt: Date.now() });
+}
+
+/** Marca `key` como desatualizada; se estiver em uso, busca de novo. */
+function invalidate(key: string) {
+  const e = entries.get(key);
+  if (!e) return;
+  update(key, { updatedAt: 0 });
+  if (e.listeners.size > 0 && e.fetcher)
+    fetchQuery(key, e.fetcher, { force: true }).catch(() => undefined);
+}
+
+function remove(key: string) {
+  const e = entries.get(key);
+  if (!e) return;
+  update(key, EMPTY);
+  if (e.listeners.size === 0) entries.delete(key);
+}
+
+/** Descarta tudo (ex.: ao sair, para o próximo usuário não ver dados alheios). */
+function clear() {
+  Array.from(entries.keys()).forEach(remove);
+}
+
+function revalidateActive() {
+  const now = Date.now();
+  entries.forEach((e, key) => {
+    if (!e.fetcher || e.listeners.size === 0) return;
+    if (now - e.state.updatedAt < FOCUS_REVALIDATE_MS) return;
+    fetchQuery(key, e.fetcher, { force: true }).catch((err) =>
+      console.error(`Revalidação de ${key} falhou:`, err)
+    );
+  });
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("focus", revalidateActive);
+  window.addEventListener("online", revalidateActive);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "visible") revalidateActive();
+  });
+}
+
+export const queryCache = {
+  getState,
+  subscribe,
+  fetch: fetchQuery,
+  setData,
+  invalidate,
+  remove,
+  clear,
+};
@@ -0,0 +1,224 @@
+// src/services/releasesApi.ts
+// Leitura e gravação de releases. O backend só aceita a release inteira no
+// PUT, então toda alteração parte de uma cópia recém-buscada.
+import api from "./api";
+import { shouldChunk, uploadInChunks } from "./chunkedUpload";
+import { toApiDate } from "./dates";
+import type {
+  FirmwareUpload,
+  Release,
+  ReleaseEntry,
+  ReleaseInput,
+  ReleaseLink,
+  ReleaseModule,
+} from "./models";
+import {
+  array,
+  boolean,
+  date,
+  number,
+  object,
+  optional,
+  parseResponse,
+  string,
+  text,
+} from "./schema";
+import { uploadRequestConfig, type UploadOptions } from "./uploads";
+
+const releaseDecoder = object<Release>({
+  id: number,
+  version: string,
+  previousVersion: text,
+  ota: boolean,
+  otaObs: text,
+  releaseDate: date,
+  importantNote: text,
+  productCategory: string,
+  productName: string,
+  status: string,
+  modules: array(
+    object<ReleaseModule>({
+      id: number,
+      module: text,
+      version: text,
+      updated: boolean,
+    })
+  ),
+  entries: array(
+    object<ReleaseEntry>({
+      id: number,
+      itemOrder: number,
+      classification: text,
+      category: optional(string),
+      observation: text,
+    })
+  ),
+  links: array(
+    object<ReleaseLink>({
+      id: number,
+      module: text,
+      description: text,
+      url: string,
+    })
+  ),
+  createdAt: date,
+  updatedAt: date,
+});
+
+/** Corpo de gravação a partir de uma release (descarta ids e datas de controle). */
+export function toReleaseInput(r: Release | ReleaseInput): ReleaseInput {
+  return {
+    version: r.version,
+    previousVersion: r.previousVersion,
+    ota: r.ota,
+    otaObs: r.otaObs || "",
+    releaseDate: toApiDate(r.releaseDate) ?? r.releaseDate,
+    importantNote: r.importantNote || "",
+    productCategory: r.productCategory,
+    productName: r.productName,
+    status: r.status,
+    modules: r.modules.map((m) => ({
+      module: m.module,
+      version: m.version,
+      updated: m.updated,
+    })),
+    entries: r.entries.map((e) => ({
+      itemOrder: e.itemOrder,
+      classification: e.classification,
+      observation: e.observation,
+    })),
+    links: r.links.map((l) => ({
+      module: l.module,
+      description: l.description,
+      url: l.url,
+    })),
+  };
+}
+
+/** Aplica os campos editados sobre a release (módulos, registros e links vêm da base). */
+export function mergeReleaseUpdate(
+  base: Release,
+  updates: Partial<Release>
+): ReleaseInput {
+  return toReleaseInput({
+    ...base,
+    version: updates.version ?? base.version,
+    previousVersion: updates.previousVersion ?? base.previousVersion,
+    ota: typeof updates.ota === "boolean" ? updates.ota : base.ota,
+    otaObs: updates.otaObs ?? base.otaObs,
+    releaseDate: updates.releaseDate ?? base.releaseDate,
+    importantNote: updates.importantNote ?? base.importantNote,
+    productCategory: updates.productCategory ?? base.productCategory,
+    productName: updates.productName ?? base.productName,
+    status: updates.status ?? base.status,
+  });
+}
+
+export function sameLink(a: ReleaseLink, b: Partial<ReleaseLink>) {
+  if (a.id && b.id) return a.id === b.id;
+  return (
+    a.module === b.module && a.description === b.description && a.url === b.url
+  );
+}
+
+// Envia: data(JSON) + dir + N arquivos + pares linkModule[]/linkDescription[]
+function multipartBody(
+  input: ReleaseInput,
+  uploads: FirmwareUpload[],
+  dir?: string
+) {
+  const fd = new FormData();
+  fd.append("data", JSON.stringify(input));
+  if (dir) fd.append("dir", dir);
+  uploads.forEach((u) => {
+    fd.append("files[]", u.file);
+    fd.append("linkModule[]", u.module || "default");
+    fd.append("linkDescription[]", u.description || "Firmware");
+  });
+  return fd;
+}
+
+export const releasesApi = {
+  async list(): Promise<Release[]> {
+    const { data } = await api.get<unknown>("/releases");
+    return parseResponse(array(releaseDecoder), data, "GET /releases");
+  },
+
+  async get(id: number): Promise<Release> {
+    const { data } = await api.get<unknown>(`/releases/${id}`);
+    return parseResponse(releaseDecoder, data, "GET /releases/:id");
+  },
+
+  async create(input: ReleaseInput) {
+    await api.post("/releases", toReleaseInput(input));
+  },
+
+  /**
+   * Cria a release enviando os firmwares. Arquivos pequenos vão no multipart
+   * e os links são gerados no backend; se algum for grande, todos vão em
+   * partes (ver chunkedUpload) e a release é gravada com as URLs finais.
+   */
+  async createWithFiles(
+    input: ReleaseInput,
+    uploads: FirmwareUpload[],
+    dir: string,
+    opts?: UploadOptions
+  ) {
+    if (shouldChunk(uploads.map((u) => u.file))) {
+      const { links, done } = await uploadInChunks(uploads, dir, opts);
+      await releasesApi.create({ ...input, links: [...input.links, ...links] });
+      done();
+      return;
+    }
+    // Não fixe Content-Type. O browser define boundary.
+    await api.post(
+      "/releases",
+      multipartBody(toReleaseInput(input), uploads, dir),
+      uploadRequestConfig(
+        uploads.map((u) => u.file),
+        opts
+      )
+    );
+  },
+
+  async update(id: number, release: Release | ReleaseInput) {
+    await api.put(`/releases/${id}`, toReleaseInput(release));
+  },
+
+  /**
+   * Substitui a release e anexa novos firmwares. Links que serão trocados
+   * pelos arquivos enviados devem ser removidos de `release` antes.
+   * Arquivos grandes vão em partes, como em `createWithFiles`.
+   */
+  async updateWithFiles(
+    id: number,
+    release: Release,
+    uploads: FirmwareUpload[],
+    dir?: string,
+    opts?: UploadOptions
+  ) {
+    if (shouldChunk(uploads.map((u) => u.file))) {
+      // sem dir, o backend usa a pasta padrão, como no multipart
+      const { links, done } = await uploadInChunks(uploads, dir ?? "", opts);
+      const input = toReleaseInput(release);
+      await releasesApi.update(id, {
+        ...input,
+        links: [...input.links, ...links],
+      });
+      done();
+      return;
+    }
+    await api.put(
+      `/releases/${id}`,
+      multipartBody(toReleaseInput(release), uploads, dir),
+      uploadRequestConfig(
+        uploads.map((u) => u.file),
+        opts
+      )
+    );
+  },
+
+  async remove(id: number) {
+    await api.delete(`/releases/${id}`);
+  },
+};
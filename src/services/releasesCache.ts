@@ -0,0 +1,85 @@
+// src/services/releasesCache.ts
+// Releases via queryCache: a lista e cada release têm sua chave. O cache serve
+// à exibição; cada gravação parte de uma cópia recém-buscada e, depois dela, só
+// a release alterada é buscada de novo e trocada nas duas.
+import type { FirmwareUpload, Release } from "./models";
+import { queryCache } from "./queryCache";
+import { mergeReleaseUpdate, releasesApi } from "./releasesApi";
+import type { UploadOptions } from "./uploads";
+
+export const RELEASES_KEY = "releases";
+export const releaseKey = (id: number) => `releases/${id}`;
+
+function putInCache(release: Release) {
+  queryCache.setData<Release>(releaseKey(release.id), release);
+  queryCache.setData<Release[]>(RELEASES_KEY, (list) =>
+    list?.map((r) => (r.id === release.id ? release : r))
+  );
+}
+
+/** Busca uma release e atualiza as duas chaves (detalhe e lista). */
+export async function fetchRelease(id: number) {
+  const release = await releasesApi.get(id);
+  putInCache(release);
+  return release;
+}
+
+/**
+ * Base das gravações: o PUT substitui a release inteira, então ela sempre vem
+ * do servidor (o cache pode ter alterações de outra pessoa ou aba por trás).
+ * Uma leitura da mesma release já em andamento é reaproveitada.
+ */
+const base = (id: number) =>
+  queryCache.fetch(releaseKey(id), () => fetchRelease(id), { force: true });
+
+// ids de módulos/registros/links novos são gerados pelo backend. Busca direta,
+// sem reaproveitar uma leitura em andamento que pode ser anterior à gravação.
+const refresh = fetchRelease;
+
+export const releasesCache = {
+  list: (opts?: { force?: boolean }) =>
+    queryCache.fetch(RELEASES_KEY, releasesApi.list, opts),
+
+  get: (id: number, opts?: { force?: boolean }) =>
+    queryCache.fetch(releaseKey(id), () => fetchRelease(id), opts),
+
+  /** Grava os campos editados da release (módulos, registros e links mantidos). */
+  async update(id: number, updates: Partial<Release>) {
+    await releasesApi.update(id, mergeReleaseUpdate(await base(id), updates));
+    return refresh(id);
+  },
+
+  /** Busca a versão atual, aplica `transform` e grava a release inteira. */
+  async updateWith(id: number, transform: (fresh: Release) => Release) {
+    await releasesApi.update(id, transform(await base(id)));
+    return refresh(id);
+  },
+
+  async updateWithFiles(
+    id: number,
+    transform: (fresh: Release) => Release,
+    uploads: FirmwareUpload[],
+    dir?: string,
+    opts?: UploadOptions
+  ) {
+    await releasesApi.updateWithFiles(
+      id,
+      transform(await base(id)),
+      uploads,
+      dir,
+      opts
+    );
+    return refresh(id);
+  },
+
+  async remove(id: number) {
+    await releasesApi.remove(id);
+    queryCache.remove(releaseKey(id));
+    queryCache.setData<Release[]>(RELEASES_KEY, (list) =>
+      list?.filter((r) => r.id !== id)
+    );
+  },
+
+  /** Depois de criar uma release a lista precisa vir de novo (id e links do backend). */
+  invalidateList: () => queryCache.invalidate(RELEASES_KEY),
+};
@@ -0,0 +1,128 @@
+// src/services/schema.ts
+// Validação das respostas da API. Cada cliente descreve o formato esperado com
+// os decoders abaixo; as manias conhecidas do backend (listas nulas, datas em
+// formatos variados) são corrigidas aqui e em nenhum outro lugar.
+
+/** A resposta não tem o formato esperado; `path` aponta o campo problemático. */
+export class UnexpectedResponseError extends Error {
+  readonly endpoint: string;
+  readonly path: string;
+
+  constructor(endpoint: string, path: string, detail: string) {
+    super(`Resposta inesperada de ${endpoint}: ${path} ${detail}`);
+    this.name = "UnexpectedResponseError";
+    this.endpoint = endpoint;
+    this.path = path;
+  }
+}
+
+export function isUnexpectedResponse(
+  err: unknown
+): err is UnexpectedResponseError {
+  return err instanceof UnexpectedResponseError;
+}
+
+class DecodeError extends Error {
+  readonly path: string;
+  constructor(path: string, detail: string) {
+    super(detail);
+    this.path = path;
+  }
+}
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+const describe = (v: unknown) =>
+  v === null ? "null" : Array.isArray(v) ? "lista" : typeof v;
+
+const fail = (path: string, expected: string, v: unknown): never => {
+  throw new DecodeError(path, `deveria ser ${expected}, veio ${describe(v)}`);
+};
+
+export const string: Decoder<string> = (v, path) =>
+  typeof v === "string" ? v : fail(path, "texto", v);
+
+/** Texto que pode faltar ou vir nulo; vira "". */
+export const text: Decoder<string> = (v, path) =>
+  v === null || v === undefined ? "" : string(v, path);
+
+export const number: Decoder<number> = (v, path) =>
+  typeof v === "number" && Number.isFinite(v) ? v : fail(path, "número", v);
+
+export const boolean: Decoder<boolean> = (v, path) =>
+  typeof v === "boolean" ? v : fail(path, "booleano", v);
+
+export function oneOf<T extends string>(values: readonly T[]): Decoder<T> {
+  return (v, path) =>
+    typeof v === "string" && (values as readonly string[]).includes(v)
+      ? (v as T)
+      : fail(path, `um de ${values.join(", ")}`, v);
+}
+
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (v, path) =>
+    v === null || v === undefined ? undefined : decoder(v, path);
+}
+
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (v, path) => (v === null || v === undefined ? null : decoder(v, path));
+}
+
+/** Lista; `null`/ausente (como o backend devolve listas vazias) vira []. */
+export function array<T>(decoder: Decoder<T>): Decoder<T[]> {
+  return (v, path) => {
+    if (v === null || v === undefined) return [];
+    if (!Array.isArray(v)) return fail(path, "lista", v);
+    return v.map((item, i) => decoder(item, `${path}[${i}]`));
+  };
+}
+
+// data zero do Go (time.Time vazio) equivale a "sem data"
+const ZERO_DATE = /^0001-01-01/;
+
+/**
+ * Data como ISO 8601. Aceita o formato com espaço ("2024-05-01 10:00:00") e só
+ * a data; data zero ou ausente vira "".
+ */
+export const date: Decoder<string> = (v, path) => {
+  if (v === null || v === undefined || v === "") return "";
+  if (typeof v !== "string") return fail(path, "data", v);
+  if (ZERO_DATE.test(v)) return "";
+  const d = new Date(
+    v.includes("T") || v.length <= 10 ? v : v.replace(" ", "T")
+  );
+  return isNaN(d.getTime()) ? fail(path, "data válida", v) : d.toISOString();
+};
+
+type Shape<T> = { [K in keyof T]-?: Decoder<T[K]> };
+
+/** Objeto com os campos descritos; campos extras são descartados. */
+export function object<T>(shape: Shape<T>): Decoder<T> {
+  return (v, path) => {
+    if (typeof v !== "object" || v === null || Array.isArray(v))
+      return fail(path, "objeto", v);
+    const src = v as Record<string, unknown>;
+    const out = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      const value = shape[key](src[key], `${path}.${key}`);
+      if (value !== undefined) out[key] = value;
+    }
+    return out;
+  };
+}
+
+/** Valida `data` vinda de `endpoint` (ex.: "GET /releases"). */
+export function parseResponse<T>(
+  decoder: Decoder<T>,
+  data: unknown,
+  endpoint: string,
+  root = "resposta"
+): T {
+  try {
+    return decoder(data, root);
+  } catch (err) {
+    if (err instanceof DecodeError)
+      throw new UnexpectedResponseError(endpoint, err.path, err.message);
+    throw err;
+  }
+}
@@ -0,0 +1,133 @@
+// src/services/uploads.ts
+// Regras e acompanhamento do envio de firmwares: validação feita antes do
+// envio e progresso por arquivo calculado a partir dos eventos do axios.
+import type { AxiosProgressEvent } from "axios";
+
+// o backend recusa acima disso com 413; validar antes evita subir à toa
+export const FIRMWARE_MAX_BYTES = 1024 * 1024 * 1024;
+export const FIRMWARE_EXTENSIONS = [
+  ".bin",
+  ".hex",
+  ".img",
+  ".fw",
+  ".swu",
+  ".zip",
+  ".tar",
+  ".gz",
+  ".tgz",
+];
+
+export type FileProgress = { name: string; loaded: number; total: number };
+
+export type UploadProgress = {
+  files: FileProgress[];
+  loaded: number;
+  total: number;
+  /** Média dos últimos segundos; 0 até haver amostras suficientes. */
+  bytesPerSecond: number;
+};
+
+export type UploadOptions = {
+  signal?: AbortSignal;
+  onProgress?: (p: UploadProgress) => void;
+};
+
+const UNITS = ["B", "KB", "MB", "GB"];
+
+export function formatBytes(bytes: number): string {
+  let v = bytes;
+  let i = 0;
+  while (v >= 1024 && i < UNITS.length - 1) {
+    v /= 1024;
+    i++;
+  }
+  const digits = i === 0 || v >= 100 ? 0 : 1;
+  return `${v.toLocaleString("pt-BR", { maximumFractionDigits: digits })} ${UNITS[i]}`;
+}
+
+/** Mensagem de erro para o arquivo, ou null se puder ser enviado. */
+export function validateFirmwareFile(file: File): string | null {
+  const name = file.name.toLowerCase();
+  if (!FIRMWARE_EXTENSIONS.some((ext) => name.endsWith(ext)))
+    return `"${file.name}" não é um firmware aceito. Extensões permitidas: ${FIRMWARE_EXTENSIONS.join(", ")}.`;
+  if (file.size === 0) return `"${file.name}" está vazio.`;
+  if (file.size > FIRMWARE_MAX_BYTES)
+    return `"${file.name}" tem ${formatBytes(file.size)}; o limite é ${formatBytes(FIRMWARE_MAX_BYTES)}.`;
+  return null;
+}
+
+// janela da média de velocidade
+const SPEED_WINDOW_MS = 3000;
+
+/**
+ * Recebe os bytes já enviados de cada arquivo e publica o progresso com a
+ * velocidade média da janela recente.
+ */
+export function progressReporter(
+  files: File[],
+  onProgress: (p: UploadProgress) => void
+) {
+  const total = files.reduce((sum, f) => sum + f.size, 0);
+  const samples: { at: number; loaded: number }[] = [];
+
+  return (loadedPerFile: number[]) => {
+    const loaded = loadedPerFile.reduce((sum, n) => sum + n, 0);
+    const now = performance.now();
+    samples.push({ at: now, loaded });
+    while (samples.length > 2 && now - samples[0].at > SPEED_WINDOW_MS)
+      samples.shift();
+    const first = samples[0];
+    const elapsed = (now - first.at) / 1000;
+    const bytesPerSecond =
+      elapsed > 0.2 ? Math.max(0, (loaded - first.loaded) / elapsed) : 0;
+
+    onProgress({
+      files: files.map((f, i) => ({
+        name: f.name,
+        loaded: loadedPerFile[i] ?? 0,
+        total: f.size,
+      })),
+      loaded,
+      total,
+      bytesPerSecond,
+    });
+  };
+}
+
+/**
+ * Converte o progresso do corpo multipart inteiro em progresso por arquivo.
+ * Os arquivos vão em sequência no corpo, então os bytes enviados preenchem
+ * um arquivo de cada vez; os campos de texto entram na proporção.
+ */
+function multipartProgress(
+  files: File[],
+  onProgress: (p: UploadProgress) => void
+) {
+  const fileBytes = files.reduce((sum, f) => sum + f.size, 0);
+  const report = progressReporter(files, onProgress);
+  const spread = (loaded: number) => {
+    let rest = loaded;
+    return files.map((f) => {
+      const sent = Math.min(f.size, rest);
+      rest -= sent;
+      return sent;
+    });
+  };
+
+  report(spread(0));
+  // handler para `onUploadProgress` do axios
+  return (e: AxiosProgressEvent) => {
+    const fraction = e.total ? Math.min(1, e.loaded / e.total) : 0;
+    report(spread(Math.round(fraction * fileBytes)));
+  };
+}
+
+/** Opções do axios para um envio com progresso e cancelamento. */
+export function uploadRequestConfig(files: File[], opts: UploadOptions = {}) {
+  return {
+    signal: opts.signal,
+    onUploadProgress: opts.onProgress
+      ? multipartProgress(files, opts.onProgress)
+      : undefined,
+  };
+}
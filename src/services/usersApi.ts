@@ -0,0 +1,99 @@
+// src/services/usersApi.ts
+// Contas de usuário e as chaves de acesso usadas para criá-las.
+import api from "./api";
+import type {
+  KeyInfo,
+  KeyRequestInput,
+  KeyRequestStatusResponse,
+  SignUpInput,
+  User,
+} from "./models";
+import { normalizeRole } from "../utils/jwt";
+import {
+  array,
+  date,
+  nullable,
+  object,
+  oneOf,
+  optional,
+  number,
+  parseResponse,
+  string,
+  text,
+} from "./schema";
+
+const userDecoder = object<User>({
+  id: number,
+  name: text,
+  email: string,
+  // papel desconhecido é tratado como leitor, igual ao token
+  role: (v) => normalizeRole(v),
+  status: oneOf(["pendente", "ativo", "bloqueado"] as const),
+  createdAt: date,
+});
+
+const keyInfoDecoder = object<KeyInfo>({
+  email: optional(string),
+  nome: optional(string),
+});
+
+const keyRequestStatusDecoder = object<KeyRequestStatusResponse>({
+  status: oneOf(["emitida", "pendente", "recusada"] as const),
+  motivo: nullable(string),
+  atualizadoEm: date,
+});
+
+export const usersApi = {
+  async list(): Promise<User[]> {
+    const { data } = await api.get<unknown>("/users");
+    return parseResponse(array(userDecoder), data, "GET /users");
+  },
+
+  async signUp(input: SignUpInput) {
+    await api.post("/users", input);
+  },
+
+  async update(id: number, patch: Partial<Pick<User, "status" | "role">>) {
+    await api.patch(`/users/${id}`, patch);
+  },
+
+  async updateMe(patch: Pick<User, "name">) {
+    await api.patch("/users/me", patch);
+  },
+
+  /** Envia ao usuário um link de redefinição de senha. */
+  async sendPasswordReset(id: number) {
+    await api.post(`/users/${id}/reset-password`);
+  },
+
+  async requestKey(input: KeyRequestInput) {
+    await api.post("/criar-chave", input);
+  },
+
+  /**
+   * E-mail e CPF vão no corpo: na query string ficariam nos logs de acesso
+   * dos proxies e no histórico do navegador.
+   */
+  async keyRequestStatus(
+    email: string,
+    cpf: string
+  ): Promise<KeyRequestStatusResponse> {
+    const { data } = await api.post<unknown>("/criar-chave/status", {
+      email,
+      cpf,
+    });
+    return parseResponse(
+      keyRequestStatusDecoder,
+      data,
+      "POST /criar-chave/status"
+    );
+  },
+
+  async validateKey(chave: string): Promise<KeyInfo> {
+    const { data } = await api.get<unknown>(
+      `/validar-chave/${encodeURIComponent(chave)}`
+    );
+    // corpo vazio: chave válida sem dados para preencher
+    return parseResponse(keyInfoDecoder, data || {}, "GET /validar-chave");
+  },
+};
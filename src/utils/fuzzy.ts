@@ -0,0 +1,57 @@
+// src/utils/fuzzy.ts
+// Busca aproximada para a paleta de comandos: cada termo da consulta precisa
+// aparecer no texto como subsequência ("dc 231" encontra "DC ... 2.3.1").
+
+const normalize = (s: string) =>
+  s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+// Pontua um termo: letras consecutivas e início de palavra valem mais
+function termScore(term: string, text: string): number | null {
+  let score = 0;
+  let ti = 0;
+  let prev = -2;
+  for (let i = 0; i < text.length && ti < term.length; i++) {
+    if (text[i] !== term[ti]) continue;
+    score += 1;
+    if (i === prev + 1) score += 2;
+    if (i === 0 || /[\s\-_./]/.test(text[i - 1])) score += 3;
+    prev = i;
+    ti++;
+  }
+  if (ti < term.length) return null;
+  // correspondência exata como substring vale bônus extra
+  if (text.includes(term)) score += term.length * 2;
+  return score;
+}
+
+/** Pontuação da consulta no texto; null quando algum termo não casa. */
+export function fuzzyScore(query: string, text: string): number | null {
+  const terms = normalize(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return 0;
+  const haystack = normalize(text);
+  let total = 0;
+  for (const term of terms) {
+    const s = termScore(term, haystack);
+    if (s === null) return null;
+    total += s;
+  }
+  return total;
+}
+
+/** Filtra e ordena os itens pela melhor pontuação. */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  text: (item: T) => string,
+  limit = Infinity
+): T[] {
+  return items
+    .map((item) => ({ item, score: fuzzyScore(query, text(item)) }))
+    .filter((x): x is { item: T; score: number } => x.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((x) => x.item);
+}
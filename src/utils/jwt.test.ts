@@ -0,0 +1,182 @@
+import { describe, expect, it } from "vitest";
+import {
+  CLOCK_SKEW_MS,
+  decodeJwtClaims,
+  hasRole,
+  isExpired,
+  isNotYetValid,
+  type JwtClaims,
+} from "./jwt";
+
+const HEADER = { alg: "HS256", typ: "JWT" };
+
+function base64Url(bytes: Uint8Array) {
+  const bin = String.fromCharCode(...bytes);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+const encode = (value: unknown) =>
+  base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+const token = (payload: unknown, header: unknown = HEADER) =>
+  `${encode(header)}.${encode(payload)}.assinatura`;
+
+/** Payload com `name` ajustado até o segmento ter o resto desejado. */
+function payloadWithLength(mod: number) {
+  for (let n = 0; n < 4; n++) {
+    const payload = { sub: "1", role: "editor", name: "a".repeat(n + 1) };
+    if (encode(payload).length % 4 === mod) return payload;
+  }
+  throw new Error(`nenhum payload com resto ${mod}`);
+}
+
+describe("decodeJwtClaims", () => {
+  it.each([0, 2, 3])("aceita segmentos com comprimento %% 4 = %i", (mod) => {
+    const payload = payloadWithLength(mod);
+    expect(encode(payload).length % 4).toBe(mod);
+    expect(decodeJwtClaims(token(payload))).toMatchObject({
+      sub: "1",
+      role: "editor",
+      name: payload.name,
+    });
+  });
+
+  it("recusa segmento com comprimento % 4 = 1", () => {
+    const [h, p, s] = token(payloadWithLength(2)).split(".");
+    const broken = p.slice(0, -1);
+    expect(broken.length % 4).toBe(1);
+    expect(decodeJwtClaims([h, broken, s].join("."))).toBeNull();
+  });
+
+  it("usa o alfabeto base64url (- e _) e recusa + e /", () => {
+    // "~~~" vira "fn5+" e "???" vira "Pz8/" em base64 comum
+    const payload = (() => {
+      for (let pad = 0; pad < 3; pad++) {
+        const p = { role: "admin", name: `${"x".repeat(pad)}~~~???` };
+        const seg = encode(p);
+        if (seg.includes("-") && seg.includes("_")) return p;
+      }
+      throw new Error("alinhamento não encontrado");
+    })();
+    const valid = token(payload);
+    expect(decodeJwtClaims(valid)?.name).toBe(payload.name);
+
+    const [h, p, s] = valid.split(".");
+    const standard = p.replace(/-/g, "+").replace(/_/g, "/");
+    expect(decodeJwtClaims([h, standard, s].join("."))).toBeNull();
+  });
+
+  it("recusa segmento com padding explícito", () => {
+    const [h, p, s] = token(payloadWithLength(2)).split(".");
+    expect(decodeJwtClaims([h, `${p}==`, s].join("."))).toBeNull();
+  });
+
+  it("decodifica nomes em UTF-8", () => {
+    const claims = decodeJwtClaims(
+      token({ sub: 7, name: "João Conceição", role: "viewer" })
+    );
+    expect(claims?.name).toBe("João Conceição");
+    expect(claims?.sub).toBe("7");
+  });
+
+  it("recusa bytes que não são UTF-8 válido", () => {
+    const invalid = base64Url(Uint8Array.from([0x7b, 0xff, 0xfe, 0x7d]));
+    expect(decodeJwtClaims(`${encode(HEADER)}.${invalid}.sig`)).toBeNull();
+  });
+
+  it.each([{ alg: "none" }, { alg: "NONE" }, { typ: "JWT" }, { alg: 256 }])(
+    "recusa cabeçalho %j",
+    (header) => {
+      expect(decodeJwtClaims(token({ role: "admin" }, header))).toBeNull();
+    }
+  );
+
+  it.each(["h.p", "h.p.", "a.b.c.d", "", null, undefined])(
+    "recusa token sem três partes ou sem assinatura: %j",
+    (value) => {
+      expect(decodeJwtClaims(value)).toBeNull();
+    }
+  );
+
+  it("recusa token com assinatura vazia", () => {
+    const [h, p] = token({ role: "admin" }).split(".");
+    expect(decodeJwtClaims(`${h}.${p}.`)).toBeNull();
+  });
+
+  it.each([[[]], ["texto"], [42], [null], [true]])(
+    "recusa payload que não é objeto: %j",
+    (payload) => {
+      expect(decodeJwtClaims(token(payload))).toBeNull();
+    }
+  );
+
+  it("recusa payload que não é JSON", () => {
+    const raw = base64Url(new TextEncoder().encode("não é json"));
+    expect(decodeJwtClaims(`${encode(HEADER)}.${raw}.sig`)).toBeNull();
+  });
+
+  it.each([
+    ["ADMIN", "admin"],
+    ["Editor", "editor"],
+    ["viewer", "viewer"],
+    ["superuser", "viewer"],
+    [undefined, "viewer"],
+    [1, "viewer"],
+  ])("normaliza o papel %j para %s", (role, expected) => {
+    expect(decodeJwtClaims(token({ role }))?.role).toBe(expected);
+  });
+
+  it("ignora datas e textos com tipo errado", () => {
+    const claims = decodeJwtClaims(
+      token({ exp: "amanhã", iat: 10, name: "", email: 5 })
+    );
+    expect(claims).toMatchObject({ iat: 10 });
+    expect(claims?.exp).toBeUndefined();
+    expect(claims?.name).toBeUndefined();
+    expect(claims?.email).toBeUndefined();
+  });
+});
+
+describe("validade", () => {
+  const now = Date.UTC(2026, 0, 1, 12);
+  const at = (offsetMs: number) => (now + offsetMs) / 1000;
+  const claims = (c: Partial<JwtClaims>): JwtClaims => ({
+    role: "viewer",
+    ...c,
+  });
+
+  it("sem exp nunca vence", () => {
+    expect(isExpired(claims({}), now)).toBe(false);
+  });
+
+  it("tolera exp vencido dentro da margem de relógio", () => {
+    expect(isExpired(claims({ exp: at(-CLOCK_SKEW_MS + 1000) }), now)).toBe(
+      false
+    );
+    expect(isExpired(claims({ exp: at(-CLOCK_SKEW_MS) }), now)).toBe(true);
+    expect(isExpired(claims({ exp: at(1000) }), now)).toBe(false);
+  });
+
+  it("aceita margem personalizada", () => {
+    expect(isExpired(claims({ exp: at(-1000) }), now, 0)).toBe(true);
+    expect(isExpired(claims({ exp: at(-1000) }), now, 5000)).toBe(false);
+  });
+
+  it("nbf no futuro só invalida além da margem", () => {
+    expect(isNotYetValid(claims({}), now)).toBe(false);
+    expect(isNotYetValid(claims({ nbf: at(CLOCK_SKEW_MS) }), now)).toBe(false);
+    expect(isNotYetValid(claims({ nbf: at(CLOCK_SKEW_MS + 1000) }), now)).toBe(
+      true
+    );
+    expect(isNotYetValid(claims({ nbf: at(1000) }), now, 0)).toBe(true);
+  });
+});
+
+describe("hasRole", () => {
+  it("exige claims e um dos papéis", () => {
+    expect(hasRole(null, "admin")).toBe(false);
+    expect(hasRole({ role: "editor" }, "admin")).toBe(false);
+    expect(hasRole({ role: "editor" }, "admin", "editor")).toBe(true);
+    expect(hasRole({ role: "admin" })).toBe(false);
+  });
+});
@@ -1,20 +1,115 @@
 // src/utils/jwt.ts
-export function parseJwtExpMs(token: string): number {
+// Leitura das claims do JWT emitido pela API. A assinatura é verificada
+// no servidor; aqui só validamos o formato para não confiar em lixo.
+export type Role = "admin" | "editor" | "viewer";
+
+export const ROLES: Role[] = ["admin", "editor", "viewer"];
+
+export type JwtClaims = {
+  sub?: string;
+  name?: string;
+  email?: string;
+  role: Role;
+  /** Datas em segundos desde a época, como no JWT. */
+  iat?: number;
+  nbf?: number;
+  exp?: number;
+};
+
+// Tolerância para diferença de relógio entre navegador e servidor
+export const CLOCK_SKEW_MS = 30 * 1000;
+
+const BASE64URL = /^[A-Za-z0-9_-]*$/;
+
+function decodeBase64Url(part: string): string {
+  if (!BASE64URL.test(part) || part.length % 4 === 1) {
+    throw new Error("invalid base64url");
+  }
+  const b64 = part.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  // atob devolve bytes; nomes com acento precisam de UTF-8
+  const bytes = Uint8Array.from(bin, (c) => c.charCodeAt(0));
+  return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+}
+
+function decodeSegment(part: string): Record<string, unknown> | null {
   try {
-    const payload = decodeJwtPayload(token);
-    return (payload?.exp ?? 0) * 1000;
+    const value: unknown = JSON.parse(decodeBase64Url(part));
+    return value && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : null;
   } catch {
-    return 0;
+    return null;
   }
 }
 
-function decodeJwtPayload(token: string): any {
-  const part = token.split(".")[1];
-  if (!part) throw new Error("invalid token");
-  // JWT usa base64url; normalize + padding
-  const b64 = part.replace(/-/g, "+").replace(/_/g, "/");
-  const pad = b64.length % 4 ? 4 - (b64.length % 4) : 0;
-  const fixed = b64 + "=".repeat(pad);
-  const json = atob(fixed);
-  return JSON.parse(json);
+const numericDate = (v: unknown) =>
+  typeof v === "number" && Number.isFinite(v) ? v : undefined;
+
+const optionalString = (v: unknown) =>
+  typeof v === "string" && v !== "" ? v : undefined;
+
+// Papel desconhecido ou ausente vira "viewer" (menor privilégio)
+export function normalizeRole(value: unknown): Role {
+  const r = String(value ?? "").toLowerCase();
+  return (ROLES as string[]).includes(r) ? (r as Role) : "viewer";
+}
+
+/**
+ * Decodifica as claims do token. Retorna null para tokens malformados,
+ * sem algoritmo ou com `alg: "none"`.
+ */
+export function decodeJwtClaims(
+  token: string | null | undefined
+): JwtClaims | null {
+  if (!token) return null;
+  const parts = token.split(".");
+  if (parts.length !== 3 || !parts[2]) return null;
+
+  const header = decodeSegment(parts[0]);
+  const payload = decodeSegment(parts[1]);
+  if (!header || !payload) return null;
+  const alg = header.alg;
+  if (typeof alg !== "string" || alg.toLowerCase() === "none") return null;
+
+  const sub = payload.sub;
+  const claims: JwtClaims = {
+    sub:
+      typeof sub === "string" || typeof sub === "number"
+        ? String(sub)
+        : undefined,
+    name: optionalString(payload.name),
+    email: optionalString(payload.email),
+    role: normalizeRole(payload.role),
+    iat: numericDate(payload.iat),
+    nbf: numericDate(payload.nbf),
+    exp: numericDate(payload.exp),
+  };
+  return claims;
+}
+
+/** Milissegundos até o exp (negativo se já venceu); Infinity sem exp. */
+export function expiresIn(claims: JwtClaims, now = Date.now()): number {
+  return claims.exp === undefined ? Infinity : claims.exp * 1000 - now;
+}
+
+export function isExpired(
+  claims: JwtClaims,
+  now = Date.now(),
+  skewMs = CLOCK_SKEW_MS
+): boolean {
+  return expiresIn(claims, now) <= -skewMs;
+}
+
+/** Token emitido com `nbf` no futuro (além da tolerância de relógio). */
+export function isNotYetValid(
+  claims: JwtClaims,
+  now = Date.now(),
+  skewMs = CLOCK_SKEW_MS
+): boolean {
+  return claims.nbf !== undefined && claims.nbf * 1000 - now > skewMs;
+}
+
+export function hasRole(claims: JwtClaims | null, ...roles: Role[]): boolean {
+  return !!claims && roles.includes(claims.role);
 }
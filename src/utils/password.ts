@@ -0,0 +1,21 @@
+// src/utils/password.ts
+// Regras de senha compartilhadas entre cadastro e redefinição de senha.
+export const MIN_PASSWORD_LENGTH = 6;
+
+/** Para o aviso ao digitar: confirmação ainda vazia não conta como divergente. */
+export function passwordsMismatch(password: string, confirm: string): boolean {
+  return confirm.length > 0 && password !== confirm;
+}
+
+/** Retorna a mensagem de erro da primeira regra violada, ou null se a senha é válida. */
+export function validatePassword(
+  password: string,
+  confirm: string
+): string | null {
+  if (passwordsMismatch(password, confirm)) return "As senhas não coincidem.";
+  if (password.length < MIN_PASSWORD_LENGTH)
+    return `A senha deve ter pelo menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+  // os formulários usam noValidate: o `required` do input não impede o envio
+  if (!confirm) return "Confirme a senha.";
+  return null;
+}
@@ -0,0 +1,37 @@
+// src/utils/permissions.ts
+import { authStore } from "../services/authStore";
+import type { Role } from "./jwt";
+
+export const EDITOR_ROLES: Role[] = ["admin", "editor"];
+export const ADMIN_ROLES: Role[] = ["admin"];
+
+export const roleLabels: Record<Role, string> = {
+  admin: "Administrador",
+  editor: "Editor",
+  viewer: "Leitor",
+};
+
+// Ações protegidas → papéis que podem executá-las
+const PERMISSIONS = {
+  "release:edit": EDITOR_ROLES,
+  "release:delete": EDITOR_ROLES,
+  "release:publish": EDITOR_ROLES,
+  "firmware:upload": EDITOR_ROLES,
+  "approval:edit": EDITOR_ROLES,
+  "approval:delete": EDITOR_ROLES,
+} satisfies Record<string, Role[]>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export function getCurrentRole(): Role | null {
+  return authStore.getState().claims?.role ?? null;
+}
+
+export function hasAnyRole(role: Role | null, roles?: Role[]): boolean {
+  if (!roles || roles.length === 0) return true;
+  return !!role && roles.includes(role);
+}
+
+export function can(permission: Permission, role = getCurrentRole()): boolean {
+  return hasAnyRole(role, PERMISSIONS[permission]);
+}
@@ -0,0 +1,53 @@
+// src/utils/redirect.ts
+// Destino pós-login preservado na query (?redirect=) da tela de login.
+
+export const DEFAULT_AFTER_LOGIN = "/dashboard/firmwares";
+const REDIRECT_PARAM = "redirect";
+
+// Rotas públicas não fazem sentido como destino depois do login
+const PUBLIC_PREFIXES = [
+  "/login",
+  "/cadastro",
+  "/solicitar-chave",
+  "/acompanhar-solicitacao",
+  "/esqueci-senha",
+  "/redefinir-senha",
+];
+
+/**
+ * Aceita apenas caminhos internos ("/dashboard?x=1"); URLs absolutas,
+ * protocol-relative ("//host") e barras invertidas são descartadas.
+ */
+export function safeRedirect(value: string | null | undefined): string | null {
+  if (!value || !value.startsWith("/") || value.startsWith("//")) return null;
+  if (value.includes("\\")) return null;
+  try {
+    const url = new URL(value, window.location.origin);
+    if (url.origin !== window.location.origin) return null;
+    const path = url.pathname;
+    if (PUBLIC_PREFIXES.some((p) => path === p || path.startsWith(`${p}/`))) {
+      return null;
+    }
+    return `${path}${url.search}${url.hash}`;
+  } catch {
+    return null;
+  }
+}
+
+/** Caminho da tela de login levando junto o destino original. */
+export function loginPathFor(location: {
+  pathname: string;
+  search?: string;
+  hash?: string;
+}): string {
+  const target = safeRedirect(
+    `${location.pathname}${location.search ?? ""}${location.hash ?? ""}`
+  );
+  if (!target || target === DEFAULT_AFTER_LOGIN) return "/login";
+  return `/login?${REDIRECT_PARAM}=${encodeURIComponent(target)}`;
+}
+
+/** Destino validado a partir da query da tela de login. */
+export function redirectFromSearch(search: URLSearchParams): string {
+  return safeRedirect(search.get(REDIRECT_PARAM)) ?? DEFAULT_AFTER_LOGIN;
+}
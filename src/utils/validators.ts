@@ -0,0 +1,38 @@
+// src/utils/validators.ts
+
+export const onlyDigits = (value: string) => value.replace(/\D/g, "");
+
+/** Aplica a máscara 000.000.000-00 conforme os dígitos são digitados. */
+export function formatCpf(value: string): string {
+  const d = onlyDigits(value).slice(0, 11);
+  if (d.length <= 3) return d;
+  if (d.length <= 6) return `${d.slice(0, 3)}.${d.slice(3)}`;
+  if (d.length <= 9) return `${d.slice(0, 3)}.${d.slice(3, 6)}.${d.slice(6)}`;
+  return `${d.slice(0, 3)}.${d.slice(3, 6)}.${d.slice(6, 9)}-${d.slice(9)}`;
+}
+
+// Dígito verificador: soma ponderada dos dígitos anteriores, módulo 11
+function cpfCheckDigit(digits: string): number {
+  const weightStart = digits.length + 1;
+  const sum = [...digits].reduce(
+    (acc, d, i) => acc + Number(d) * (weightStart - i),
+    0
+  );
+  const rest = (sum * 10) % 11;
+  return rest === 10 ? 0 : rest;
+}
+
+export function isValidCpf(value: string): boolean {
+  const d = onlyDigits(value);
+  if (d.length !== 11) return false;
+  // 000.000.000-00, 111.111.111-11... passam no cálculo mas não existem
+  if (/^(\d)\1{10}$/.test(d)) return false;
+  return (
+    cpfCheckDigit(d.slice(0, 9)) === Number(d[9]) &&
+    cpfCheckDigit(d.slice(0, 10)) === Number(d[10])
+  );
+}
+
+export function isValidEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value.trim());
+}
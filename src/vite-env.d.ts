@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** URL base da API (ex.: https://api-staging.exemplo.com/api). */
+  readonly VITE_API_BASE_URL?: string;
+  /** Nome do ambiente exibido no Header quando diferente de "production". */
+  readonly VITE_APP_ENV?: string;
+  /** "true" liga o backend simulado (src/mocks) no lugar da API. */
+  readonly VITE_MOCK_API?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}